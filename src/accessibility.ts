@@ -0,0 +1,145 @@
+// Accessibility settings (screen-reader announcements, item markers, high contrast,
+// reduced motion) and the live region that reads the canvas HUD out loud.
+
+import { t } from './i18n';
+import { registerPlugin } from './plugins';
+
+// 'system' follows the OS-level prefers-reduced-motion setting.
+export type ReducedMotionSetting = 'system' | 'on' | 'off';
+export const REDUCED_MOTION_SETTINGS: ReducedMotionSetting[] = ['system', 'on', 'off'];
+
+export interface AccessibilitySettings {
+  announcements: boolean;
+  // Shape markers on items: bombs, rare items and power-ups are told apart by more than colour.
+  itemMarkers: boolean;
+  highContrast: boolean;
+  reducedMotion: ReducedMotionSetting;
+}
+
+export const DEFAULT_ACCESSIBILITY: AccessibilitySettings = {
+  announcements: true,
+  itemMarkers: false,
+  highContrast: false,
+  reducedMotion: 'system',
+};
+
+const ACCESSIBILITY_KEY = 'tulu.accessibility';
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+export function loadAccessibilitySettings(): AccessibilitySettings {
+  const settings = { ...DEFAULT_ACCESSIBILITY };
+  try {
+    const raw = localStorage.getItem(ACCESSIBILITY_KEY);
+    if (!raw) return settings;
+    const data = JSON.parse(raw) as Partial<AccessibilitySettings>;
+    for (const key of ['announcements', 'itemMarkers', 'highContrast'] as const) {
+      if (typeof data[key] === 'boolean') settings[key] = data[key];
+    }
+    if (REDUCED_MOTION_SETTINGS.includes(data.reducedMotion as ReducedMotionSetting)) {
+      settings.reducedMotion = data.reducedMotion as ReducedMotionSetting;
+    }
+  } catch {
+    console.warn('[accessibility] Could not read saved settings, using defaults.');
+  }
+  return settings;
+}
+
+export function saveAccessibilitySettings(settings: AccessibilitySettings): void {
+  try {
+    localStorage.setItem(ACCESSIBILITY_KEY, JSON.stringify(settings));
+  } catch {
+    // Ignore storage failures; settings just won't persist.
+  }
+}
+
+export function resolveReducedMotion(setting: ReducedMotionSetting): boolean {
+  if (setting !== 'system') return setting === 'on';
+  return window.matchMedia?.(REDUCED_MOTION_QUERY).matches ?? false;
+}
+
+// Calls `onChange` when the OS-level preference changes. Returns a detach function.
+export function watchSystemReducedMotion(onChange: () => void): () => void {
+  const query = window.matchMedia?.(REDUCED_MOTION_QUERY);
+  query?.addEventListener('change', onChange);
+  return () => query?.removeEventListener('change', onChange);
+}
+
+// Theme classes on <html>, so the stylesheet can restyle every overlay.
+export function applyDocumentSettings(settings: AccessibilitySettings): void {
+  const root = document.documentElement;
+  root.classList.toggle('high-contrast', settings.highContrast);
+  root.classList.toggle('reduced-motion', resolveReducedMotion(settings.reducedMotion));
+}
+
+const FOCUSABLE = 'button:not([disabled]), input:not([disabled]), select:not([disabled]), [tabindex]';
+
+// Moves keyboard focus to the first visible control inside `container`, unless
+// focus is already in there.
+export function focusFirst(container: HTMLElement): void {
+  if (container.contains(document.activeElement)) return;
+  const target = [...container.querySelectorAll<HTMLElement>(FOCUSABLE)].find(
+    (el) => el.tabIndex >= 0 && el.getClientRects().length > 0,
+  );
+  target?.focus({ preventScroll: true });
+}
+
+// Score updates are read at most this often (seconds of game time); lives, levels
+// and the end of the round are read right away.
+const SCORE_ANNOUNCE_INTERVAL = 10;
+
+// Polite live region fed from the game event bus. Returns a detach function.
+export function attachAnnouncer(parent: HTMLElement, isEnabled: () => boolean): () => void {
+  const region = document.createElement('div');
+  region.className = 'visually-hidden';
+  region.setAttribute('role', 'status');
+  region.setAttribute('aria-live', 'polite');
+  parent.appendChild(region);
+
+  let lastScoreAnnouncement = 0;
+  const announce = (text: string) => {
+    if (!isEnabled()) return;
+    // Re-setting identical text isn't announced again, so clear it first.
+    region.textContent = '';
+    window.setTimeout(() => {
+      region.textContent = text;
+    }, 50);
+  };
+
+  const unregister = registerPlugin({
+    name: 'screen-reader',
+    setup: ({ on }) => {
+      on('catch', (event) => {
+        if (event.replay || event.elapsedTime - lastScoreAnnouncement < SCORE_ANNOUNCE_INTERVAL) return;
+        lastScoreAnnouncement = event.elapsedTime;
+        announce(t('announce.score', { score: event.score }));
+      });
+      on('lifeLost', (event) => {
+        if (event.replay) return;
+        announce(
+          event.player != null && event.mode === 'versus'
+            ? t('announce.playerLifeLost', { number: event.player + 1, count: event.livesLeft })
+            : t('announce.lifeLost', { count: event.livesLeft }),
+        );
+      });
+      on('levelChange', (event) => {
+        if (!event.replay) announce(t('announce.level', { level: event.level, score: event.score }));
+      });
+      on('screenChange', (event) => {
+        if (event.replay) return;
+        if (event.to === 'playing' && event.from !== 'paused') {
+          lastScoreAnnouncement = 0;
+          announce(t('announce.roundStart'));
+        } else if (event.to === 'paused') {
+          announce(t('announce.paused', { score: event.score }));
+        } else if (event.to === 'gameOver') {
+          announce(t('announce.gameOver', { score: event.score }));
+        }
+      });
+    },
+  });
+
+  return () => {
+    unregister();
+    region.remove();
+  };
+}
@@ -0,0 +1,102 @@
+// Accessibility overlay opened from the start screen: announcements, item markers,
+// high contrast and reduced motion in one place.
+
+import type { AccessibilitySettings, ReducedMotionSetting } from './accessibility';
+import { REDUCED_MOTION_SETTINGS } from './accessibility';
+import type { MessageKey } from './i18n';
+import { onLocaleChange, translateElement } from './i18n';
+
+export interface AccessibilityPanel {
+  open: () => void;
+  close: () => void;
+  isOpen: () => boolean;
+}
+
+const REDUCED_MOTION_LABELS: Record<ReducedMotionSetting, MessageKey> = {
+  system: 'a11y.reducedMotion.system',
+  on: 'a11y.reducedMotion.on',
+  off: 'a11y.reducedMotion.off',
+};
+
+const TOGGLES: { key: 'announcements' | 'itemMarkers' | 'highContrast'; label: MessageKey }[] = [
+  { key: 'announcements', label: 'a11y.announcements' },
+  { key: 'itemMarkers', label: 'a11y.itemMarkers' },
+  { key: 'highContrast', label: 'a11y.highContrast' },
+];
+
+export function initAccessibilityPanel(
+  parent: HTMLElement,
+  initial: AccessibilitySettings,
+  onChange: (settings: AccessibilitySettings) => void,
+): AccessibilityPanel {
+  const settings = { ...initial };
+  let visible = false;
+
+  const screen = document.createElement('div');
+  screen.className = 'screen accessibility-screen';
+  screen.setAttribute('role', 'dialog');
+  screen.dataset.i18nLabel = 'a11y.title';
+  screen.innerHTML = `
+    <div class="panel">
+      <div class="panel-content">
+        <h2 class="title" data-i18n="a11y.title"></h2>
+        <div class="settings-options">
+          ${TOGGLES.map(
+            ({ key, label }) => `
+              <label class="settings-row">
+                <span data-i18n="${label}"></span>
+                <input type="checkbox" data-a11y="${key}" ${settings[key] ? 'checked' : ''} />
+              </label>`,
+          ).join('')}
+          <label class="settings-row">
+            <span data-i18n="a11y.reducedMotion"></span>
+            <select data-a11y="reducedMotion">
+              ${REDUCED_MOTION_SETTINGS.map(
+                (value) =>
+                  `<option value="${value}" data-i18n="${REDUCED_MOTION_LABELS[value]}" ${settings.reducedMotion === value ? 'selected' : ''}></option>`,
+              ).join('')}
+            </select>
+          </label>
+        </div>
+        <div class="settings-actions">
+          <button type="button" class="replay-btn" data-a11y-close data-i18n="common.done"></button>
+        </div>
+      </div>
+    </div>
+  `;
+  translateElement(screen);
+  onLocaleChange(() => translateElement(screen));
+  parent.appendChild(screen);
+
+  screen.addEventListener('change', (event) => {
+    const target = event.target as HTMLInputElement | HTMLSelectElement;
+    const key = target.dataset.a11y;
+    if (key === 'reducedMotion') {
+      settings.reducedMotion = target.value as ReducedMotionSetting;
+    } else if (key === 'announcements' || key === 'itemMarkers' || key === 'highContrast') {
+      settings[key] = (target as HTMLInputElement).checked;
+    } else {
+      return;
+    }
+    onChange({ ...settings });
+  });
+
+  screen.addEventListener('click', (event) => {
+    const target = event.target as HTMLElement | null;
+    if (target?.matches('[data-a11y-close]')) panel.close();
+  });
+
+  const panel: AccessibilityPanel = {
+    open() {
+      visible = true;
+      screen.style.display = 'flex';
+    },
+    close() {
+      visible = false;
+      screen.style.display = 'none';
+    },
+    isOpen: () => visible,
+  };
+
+  return panel;
+}
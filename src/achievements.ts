@@ -0,0 +1,285 @@
+// Achievements: data-driven goals checked against the game event bus, persisted
+// in localStorage. Like the event sounds it is a plugin in the adapter, so it
+// never influences the simulation.
+
+import { GAME_MODES } from './config.ts';
+import { getActiveContent } from './content';
+import type { GameEventContext } from './events';
+import type { MessageKey, MessageParams } from './i18n';
+import { registerPlugin } from './plugins';
+
+// Counters for the round in progress.
+export interface RoundStats {
+  catches: number;
+  rareCatches: number;
+  bombsDodged: number;
+  bestStreak: number;
+  // Seconds survived in a mode with lives (time attack and zen can't be survived).
+  survived: number;
+}
+
+// Counters kept across rounds.
+export interface LifetimeStats {
+  catches: number;
+  rounds: number;
+  // Highest level reached per character id.
+  maxLevelByCharacter: Record<string, number>;
+}
+
+export interface AchievementStats {
+  round: RoundStats;
+  lifetime: LifetimeStats;
+}
+
+export interface AchievementProgress {
+  current: number;
+  target: number;
+}
+
+export interface AchievementDef {
+  id: string;
+  // Message keys, translated where shown.
+  title: MessageKey;
+  description: MessageKey;
+  descriptionParams?: MessageParams;
+  icon: string;
+  // Unlocked once current reaches target.
+  progress: (stats: AchievementStats) => AchievementProgress;
+}
+
+const ALL_CHARACTERS_LEVEL = 5;
+
+export const ACHIEVEMENTS: AchievementDef[] = [
+  {
+    id: 'rare-10',
+    title: 'achievement.rare10.title',
+    description: 'achievement.rare10.description',
+    icon: '💎',
+    progress: ({ round }) => ({ current: round.rareCatches, target: 10 }),
+  },
+  {
+    id: 'survive-120',
+    title: 'achievement.survive120.title',
+    description: 'achievement.survive120.description',
+    icon: '⏱️',
+    progress: ({ round }) => ({ current: Math.floor(round.survived), target: 120 }),
+  },
+  {
+    id: 'dodge-20',
+    title: 'achievement.dodge20.title',
+    description: 'achievement.dodge20.description',
+    icon: '💣',
+    progress: ({ round }) => ({ current: round.bombsDodged, target: 20 }),
+  },
+  {
+    id: 'streak-35',
+    title: 'achievement.streak35.title',
+    description: 'achievement.streak35.description',
+    icon: '🔥',
+    progress: ({ round }) => ({ current: round.bestStreak, target: 35 }),
+  },
+  {
+    id: 'catch-1000',
+    title: 'achievement.catch1000.title',
+    description: 'achievement.catch1000.description',
+    icon: '🧺',
+    progress: ({ lifetime }) => ({ current: lifetime.catches, target: 1000 }),
+  },
+  {
+    id: 'all-characters-5',
+    title: 'achievement.allCharacters5.title',
+    description: 'achievement.allCharacters5.description',
+    descriptionParams: { level: ALL_CHARACTERS_LEVEL },
+    icon: '🏆',
+    progress: ({ lifetime }) => {
+      const { characters } = getActiveContent();
+      const current = characters.filter(
+        (char) => (lifetime.maxLevelByCharacter[char.id] ?? 0) >= ALL_CHARACTERS_LEVEL,
+      ).length;
+      return { current, target: characters.length };
+    },
+  },
+];
+
+export interface SavedAchievements {
+  // Unlock date (ISO string) per achievement id.
+  unlocked: Record<string, string>;
+  // Best progress seen so far per achievement id, for the trophy screen.
+  best: Record<string, number>;
+  lifetime: LifetimeStats;
+}
+
+const ACHIEVEMENTS_KEY = 'tulu.achievements';
+
+function createRoundStats(): RoundStats {
+  return { catches: 0, rareCatches: 0, bombsDodged: 0, bestStreak: 0, survived: 0 };
+}
+
+function emptySave(): SavedAchievements {
+  return { unlocked: {}, best: {}, lifetime: { catches: 0, rounds: 0, maxLevelByCharacter: {} } };
+}
+
+export function loadAchievements(): SavedAchievements {
+  const saved = emptySave();
+  try {
+    const raw = localStorage.getItem(ACHIEVEMENTS_KEY);
+    if (!raw) return saved;
+    const data = JSON.parse(raw) as Partial<SavedAchievements>;
+    saved.unlocked = readRecord(data.unlocked, (value): value is string => typeof value === 'string');
+    saved.best = readRecord(data.best, isCount);
+    const lifetime = data.lifetime;
+    if (typeof lifetime === 'object' && lifetime !== null) {
+      if (isCount(lifetime.catches)) saved.lifetime.catches = lifetime.catches;
+      if (isCount(lifetime.rounds)) saved.lifetime.rounds = lifetime.rounds;
+      saved.lifetime.maxLevelByCharacter = readRecord(lifetime.maxLevelByCharacter, isCount);
+    }
+  } catch {
+    console.warn('[achievements] Could not read saved achievements, starting fresh.');
+  }
+  return saved;
+}
+
+// Progress shown for a locked achievement between rounds: round goals remember
+// their best round, lifetime goals their running total.
+export function savedProgress(def: AchievementDef, saved: SavedAchievements): AchievementProgress {
+  const { target } = def.progress({ round: createRoundStats(), lifetime: saved.lifetime });
+  return { current: Math.min(target, saved.best[def.id] ?? 0), target };
+}
+
+export function saveAchievements(saved: SavedAchievements): void {
+  try {
+    localStorage.setItem(ACHIEVEMENTS_KEY, JSON.stringify(saved));
+  } catch {
+    // Ignore storage failures; progress just won't persist.
+  }
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function readRecord<T>(value: unknown, isValid: (entry: unknown) => entry is T): Record<string, T> {
+  const record: Record<string, T> = {};
+  if (typeof value !== 'object' || value === null) return record;
+  for (const [key, entry] of Object.entries(value)) {
+    if (isValid(entry)) record[key] = entry;
+  }
+  return record;
+}
+
+export interface AchievementTracker {
+  getSaved: () => SavedAchievements;
+  // Stops counting the current round (a debug cheat was used); the next round counts again.
+  discardRound: () => void;
+  // Unregisters the plugin.
+  detach: () => void;
+}
+
+// Follows live rounds on the game event bus (replays and cheated rounds never
+// count) and calls `onUnlock` for every achievement that reaches its target,
+// mid-round included. `isCheating` is asked as each round starts.
+export function attachAchievementTracker(
+  saved: SavedAchievements,
+  onUnlock: (achievement: AchievementDef) => void,
+  isCheating: () => boolean,
+): AchievementTracker {
+  let round = createRoundStats();
+  let tracking = false;
+  // Character id per player in the current round.
+  let characters: string[] = [];
+  let dirty = false;
+
+  const stats = (): AchievementStats => ({ round, lifetime: saved.lifetime });
+
+  const recordLevel = (level: number) => {
+    const levels = saved.lifetime.maxLevelByCharacter;
+    for (const id of characters) {
+      if (level > (levels[id] ?? 0)) {
+        levels[id] = level;
+        dirty = true;
+      }
+    }
+  };
+
+  // Updates best progress and unlocks whatever reached its target.
+  const check = (): AchievementDef[] => {
+    const unlocked: AchievementDef[] = [];
+    const current = stats();
+    for (const def of ACHIEVEMENTS) {
+      if (saved.unlocked[def.id]) continue;
+      const progress = def.progress(current);
+      if (progress.current > (saved.best[def.id] ?? 0)) {
+        saved.best[def.id] = progress.current;
+        dirty = true;
+      }
+      if (progress.target > 0 && progress.current >= progress.target) {
+        saved.unlocked[def.id] = new Date().toISOString();
+        unlocked.push(def);
+        dirty = true;
+      }
+    }
+    return unlocked;
+  };
+
+  const update = (event: GameEventContext, roundOver = false) => {
+    if (GAME_MODES[event.gameMode].lives) round.survived = event.elapsedTime;
+    const unlocked = check();
+    // Progress is written at the end of a round and whenever something unlocks,
+    // not on every catch.
+    if (dirty && (roundOver || unlocked.length > 0)) {
+      saveAchievements(saved);
+      dirty = false;
+    }
+    unlocked.forEach(onUnlock);
+  };
+
+  const detach = registerPlugin({
+    name: 'achievements',
+    setup: ({ on }) => {
+      on('roundStart', (event) => {
+        if (event.replay) return;
+        tracking = !isCheating();
+        if (!tracking) return;
+        round = createRoundStats();
+        characters = event.characters;
+        saved.lifetime.rounds += 1;
+        recordLevel(1);
+        dirty = true;
+        update(event);
+      });
+      on('catch', (event) => {
+        if (event.replay || !tracking) return;
+        round.catches += 1;
+        saved.lifetime.catches += 1;
+        if (event.rare) round.rareCatches += 1;
+        round.bestStreak = Math.max(round.bestStreak, event.streak);
+        dirty = true;
+        update(event);
+      });
+      on('hazardDodged', (event) => {
+        if (event.replay || !tracking) return;
+        round.bombsDodged += 1;
+        update(event);
+      });
+      on('levelChange', (event) => {
+        if (event.replay || !tracking) return;
+        recordLevel(event.level);
+        update(event);
+      });
+      on('gameOver', (event) => {
+        if (!event.replay && tracking) update(event, true);
+      });
+    },
+  });
+
+  const discardRound = () => {
+    tracking = false;
+    // Keep what was counted before the cheat.
+    if (dirty) {
+      saveAchievements(saved);
+      dirty = false;
+    }
+  };
+
+  return { getSaved: () => saved, discardRound, detach };
+}
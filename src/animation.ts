@@ -0,0 +1,86 @@
+// Sprite-sheet clip playback. The player's clip is picked from its movement and
+// from simulation events (catch, hurt); items just loop their 'fall' clip.
+
+import type { AnimationClip, FrameRect, PlayerClipName, SpriteSheetConfig } from './config.ts';
+import type { GameScreen, GameState, Player } from './entities';
+import type { SimulationEvent } from './simulation';
+
+export interface PlayerAnimation {
+  clip: PlayerClipName;
+  // Seconds since the clip started.
+  time: number;
+}
+
+// How long one-shot clips block the movement clips when the sheet has no such clip.
+const ONE_SHOT_FALLBACK = 0.3;
+
+export function createPlayerAnimation(): PlayerAnimation {
+  return { clip: 'idle', time: 0 };
+}
+
+export function clipDuration(clip: AnimationClip): number {
+  return clip.frames.length / clip.fps;
+}
+
+// Frame to show `time` seconds into the clip.
+export function getClipFrame(clip: AnimationClip, time: number): FrameRect {
+  const index = Math.floor(time * clip.fps);
+  if (clip.loop === false) {
+    return clip.frames[Math.min(index, clip.frames.length - 1)];
+  }
+  return clip.frames[index % clip.frames.length];
+}
+
+// The requested clip, or 'idle' if the sheet doesn't have it.
+export function resolvePlayerClip(
+  sheet: SpriteSheetConfig<PlayerClipName>,
+  name: PlayerClipName,
+): AnimationClip | undefined {
+  return sheet.clips[name] ?? sheet.clips.idle;
+}
+
+function play(anim: PlayerAnimation, clip: PlayerClipName): void {
+  anim.clip = clip;
+  anim.time = 0;
+}
+
+// Catch and hurt interrupt whatever is playing. `anims` is indexed like
+// GameState.players; events without a player (shared misses) hit everyone.
+export function triggerPlayerClips(anims: PlayerAnimation[], events: SimulationEvent[]): void {
+  for (const event of events) {
+    if (event.type === 'catch' || event.type === 'powerUp') {
+      playFor(anims, event.player, 'catch');
+    } else if (event.type === 'miss' || event.type === 'bombCaught') {
+      playFor(anims, event.player, 'hurt');
+    } else if (event.type === 'roundStart') {
+      playFor(anims, null, 'idle');
+    }
+  }
+}
+
+function playFor(anims: PlayerAnimation[], player: number | null, clip: PlayerClipName): void {
+  for (const [index, anim] of anims.entries()) {
+    if (player == null || player === index) play(anim, clip);
+  }
+}
+
+export function updatePlayerAnimations(anims: PlayerAnimation[], state: GameState, dt: number): void {
+  for (const [index, anim] of anims.entries()) {
+    const player = state.players[index];
+    anim.time += dt;
+    if (player) updateClip(anim, player, state.screen);
+  }
+}
+
+function updateClip(anim: PlayerAnimation, player: Player, screen: GameScreen): void {
+  if (anim.clip === 'catch' || anim.clip === 'hurt') {
+    const clip = player.character.sheet?.clips[anim.clip];
+    const duration = clip ? clipDuration(clip) : ONE_SHOT_FALLBACK;
+    if (anim.time < duration) return;
+  }
+
+  // Only walk while the round is running; the game-over frame stands still.
+  const dir = screen === 'playing' ? player.moveDir : 0;
+  const next: PlayerClipName = dir < 0 ? 'walkLeft' : dir > 0 ? 'walkRight' : 'idle';
+  if (next !== anim.clip) play(anim, next);
+}
@@ -1,36 +1,135 @@
 // Simple asset system that loads optional sprite images.
-// If a file is missing or fails to load, the game will log a warning
-// and fall back to rectangle rendering.
+// If a file is missing or fails to load, the game will log a warning, list it
+// in the failed assets shown on the start screen, and fall back to rectangle rendering.
+
+import type { ContentPack } from './content';
 
 export type ImageAsset = HTMLImageElement;
 
+export type AssetStatus = 'loading' | 'loaded' | 'failed';
+
 export interface LoadedImage {
   img: ImageAsset | null;
   path: string | null;
+  status: AssetStatus;
 }
 
 const imageCache = new Map<string, LoadedImage>();
+const imageLoads = new Map<string, Promise<LoadedImage>>();
 
 export function getCachedImage(path: string | null): LoadedImage {
   if (!path) {
-    return { img: null, path: null };
+    return { img: null, path: null, status: 'failed' };
   }
   const cached = imageCache.get(path);
   if (cached) return cached;
 
   const img = new Image();
-  const record: LoadedImage = { img, path };
+  const record: LoadedImage = { img, path, status: 'loading' };
   imageCache.set(path, record);
-
+  imageLoads.set(
+    path,
+    new Promise((resolve) => {
+      img.onload = () => {
+        record.status = 'loaded';
+        resolve(record);
+      };
+      img.onerror = () => {
+        console.warn(`[assets] Failed to load image at "${path}". Falling back to rectangle rendering.`);
+        record.img = null;
+        record.status = 'failed';
+        resolve(record);
+      };
+    }),
+  );
   img.src = path;
-  img.onload = () => {
-    // Loaded successfully; nothing else to do.
-  };
-  img.onerror = () => {
-    console.warn(`[assets] Failed to load image at "${path}". Falling back to rectangle rendering.`);
-    record.img = null;
-  };
 
   return record;
 }
 
+// Resolves once the image has loaded or failed; never rejects.
+export function loadImage(path: string): Promise<LoadedImage> {
+  getCachedImage(path);
+  return imageLoads.get(path)!;
+}
+
+// Resolves to true once a face matching the CSS font shorthand (e.g. "16px PPMori") is usable.
+export async function loadFont(font: string): Promise<boolean> {
+  try {
+    const faces = await document.fonts.load(font);
+    if (faces.length > 0) return true;
+  } catch {
+    // Reported below.
+  }
+  console.warn(`[assets] Failed to load font "${font}". Falling back to the system font.`);
+  return false;
+}
+
+export interface AssetManifestEntry {
+  kind: 'image' | 'font';
+  // Image URL or CSS font shorthand.
+  path: string;
+  // The game waits for critical assets (or the timeout) before leaving the loading screen.
+  critical: boolean;
+}
+
+export const LOGO_PATH = '/assets/Logo/logo.svg';
+export const GAME_FONT = '16px PPMori';
+
+export function buildAssetManifest(pack: ContentPack): AssetManifestEntry[] {
+  const sprites = [...pack.characters, ...pack.items]
+    .flatMap((entry) => [entry.spritePath, entry.sheet?.path])
+    .filter((path): path is string => path != null);
+  return [
+    ...[...new Set(sprites)].map((path) => ({ kind: 'image' as const, path, critical: true })),
+    { kind: 'font', path: GAME_FONT, critical: true },
+    { kind: 'image', path: LOGO_PATH, critical: false },
+  ];
+}
+
+export interface PreloadProgress {
+  total: number;
+  // Assets that finished, successfully or not.
+  done: number;
+  failed: string[];
+  // Critical assets are ready, or the timeout passed.
+  ready: boolean;
+  timedOut: boolean;
+}
+
+// Loads every manifest entry, reporting progress as each one settles. Resolves
+// once the critical entries have settled or `timeoutMs` has passed, whichever
+// comes first; non-critical entries keep reporting progress afterwards.
+export function preloadAssets(
+  manifest: AssetManifestEntry[],
+  onProgress: (progress: PreloadProgress) => void,
+  timeoutMs: number,
+): Promise<PreloadProgress> {
+  const progress: PreloadProgress = { total: manifest.length, done: 0, failed: [], ready: false, timedOut: false };
+  const report = () => onProgress({ ...progress, failed: [...progress.failed] });
+  report();
+
+  const loads = manifest.map(async (entry) => {
+    const ok = entry.kind === 'font' ? await loadFont(entry.path) : (await loadImage(entry.path)).status === 'loaded';
+    progress.done += 1;
+    if (!ok) progress.failed.push(entry.path);
+    report();
+  });
+  const critical = loads.filter((_, i) => manifest[i].critical);
+
+  return new Promise((resolve) => {
+    const finish = (timedOut: boolean) => {
+      if (progress.ready) return;
+      clearTimeout(timer);
+      progress.ready = true;
+      progress.timedOut = timedOut;
+      if (timedOut) {
+        console.warn(`[assets] Preloading timed out after ${timeoutMs} ms; starting with ${progress.done}/${progress.total} assets.`);
+      }
+      report();
+      resolve({ ...progress, failed: [...progress.failed] });
+    };
+    const timer = setTimeout(() => finish(true), timeoutMs);
+    void Promise.all(critical).then(() => finish(false));
+  });
+}
@@ -0,0 +1,301 @@
+// WebAudio sound manager: sound effects, looping music per screen and volume
+// settings. Every sound has a synthesized tone; sound files are optional and only
+// replace the tone when one is listed below and loads.
+
+import { registerPlugin } from './plugins';
+
+export type SoundId = 'catch' | 'rareCatch' | 'miss' | 'bomb' | 'levelUp' | 'gameOver' | 'powerUp';
+export type MusicId = 'menu' | 'game';
+export type VolumeChannel = 'master' | 'music' | 'sfx';
+
+export interface AudioSettings {
+  master: number;
+  music: number;
+  sfx: number;
+  muted: boolean;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  master: 0.8,
+  music: 0.5,
+  sfx: 0.8,
+  muted: false,
+};
+
+// No recordings ship yet, so every sound uses its tone. Drop files into
+// public/assets/audio and list them here, e.g. `catch: '/assets/audio/catch.mp3'`.
+const SOUND_PATHS: Partial<Record<SoundId, string>> = {};
+
+const MUSIC_PATHS: Partial<Record<MusicId, string>> = {};
+
+// Fallback tones: a list of notes rendered into a buffer.
+type Wave = 'sine' | 'square' | 'triangle' | 'noise';
+
+interface Note {
+  freq: number;
+  // Seconds from the start of the sound.
+  start: number;
+  duration: number;
+}
+
+interface ToneSpec {
+  wave: Wave;
+  gain: number;
+  notes: Note[];
+}
+
+// Ascending run of equally spaced notes, e.g. for jingles.
+function run(freqs: number[], step: number, duration = step): Note[] {
+  return freqs.map((freq, i) => ({ freq, start: i * step, duration }));
+}
+
+const SOUND_TONES: Record<SoundId, ToneSpec> = {
+  catch: { wave: 'triangle', gain: 0.5, notes: run([660, 880], 0.06) },
+  rareCatch: { wave: 'triangle', gain: 0.5, notes: run([660, 880, 1320], 0.06, 0.1) },
+  miss: { wave: 'square', gain: 0.25, notes: run([220, 165], 0.1, 0.12) },
+  bomb: { wave: 'noise', gain: 0.6, notes: [{ freq: 0, start: 0, duration: 0.5 }] },
+  levelUp: { wave: 'square', gain: 0.25, notes: run([523, 659, 784, 1047], 0.08) },
+  gameOver: { wave: 'triangle', gain: 0.5, notes: run([392, 330, 262, 196], 0.18, 0.25) },
+  powerUp: { wave: 'sine', gain: 0.5, notes: run([440, 554, 659, 880], 0.05) },
+};
+
+const MUSIC_TONES: Record<MusicId, ToneSpec> = {
+  menu: { wave: 'sine', gain: 0.3, notes: run([262, 330, 392, 330, 294, 349, 440, 349], 0.4, 0.35) },
+  game: { wave: 'triangle', gain: 0.25, notes: run([330, 392, 494, 392, 349, 440, 523, 440], 0.25, 0.2) },
+};
+
+const SETTINGS_KEY = 'tulu.audio';
+
+export function loadAudioSettings(): AudioSettings {
+  const settings = { ...DEFAULT_AUDIO_SETTINGS };
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return settings;
+    const saved = JSON.parse(raw) as Record<string, unknown>;
+    for (const channel of ['master', 'music', 'sfx'] as const) {
+      const value = saved[channel];
+      if (typeof value === 'number' && value >= 0 && value <= 1) settings[channel] = value;
+    }
+    if (typeof saved.muted === 'boolean') settings.muted = saved.muted;
+  } catch {
+    // Storage unavailable or corrupt JSON; keep the defaults.
+  }
+  return settings;
+}
+
+export function saveAudioSettings(settings: AudioSettings): void {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Ignore storage failures; settings just won't persist.
+  }
+}
+
+// Decoded buffers per path. A failed load resolves to null and is not retried.
+const bufferCache = new Map<string, Promise<AudioBuffer | null>>();
+
+function getCachedBuffer(ctx: AudioContext, path: string): Promise<AudioBuffer | null> {
+  const cached = bufferCache.get(path);
+  if (cached) return cached;
+
+  const loading = fetch(path)
+    .then((response) => {
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      return response.arrayBuffer();
+    })
+    .then((data) => ctx.decodeAudioData(data))
+    .catch(() => {
+      console.warn(`[audio] Failed to load sound at "${path}". Falling back to a synthesized tone.`);
+      return null;
+    });
+  bufferCache.set(path, loading);
+  return loading;
+}
+
+function synthesize(ctx: AudioContext, spec: ToneSpec): AudioBuffer {
+  const length = Math.max(...spec.notes.map((note) => note.start + note.duration));
+  const buffer = ctx.createBuffer(1, Math.ceil(length * ctx.sampleRate), ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+
+  for (const note of spec.notes) {
+    const from = Math.floor(note.start * ctx.sampleRate);
+    const count = Math.floor(note.duration * ctx.sampleRate);
+    for (let i = 0; i < count && from + i < data.length; i++) {
+      const t = i / ctx.sampleRate;
+      const phase = (t * note.freq) % 1;
+      // Short attack, linear release, so notes don't click.
+      const envelope = Math.min(1, i / 200) * (1 - i / count);
+      data[from + i] += waveSample(spec.wave, phase) * envelope * spec.gain;
+    }
+  }
+  return buffer;
+}
+
+function waveSample(wave: Wave, phase: number): number {
+  switch (wave) {
+    case 'sine':
+      return Math.sin(phase * Math.PI * 2);
+    case 'square':
+      return phase < 0.5 ? 1 : -1;
+    case 'triangle':
+      return 1 - 4 * Math.abs(phase - 0.5);
+    case 'noise':
+      return Math.random() * 2 - 1;
+  }
+}
+
+export interface SoundManager {
+  play: (id: SoundId) => void;
+  // Switches the looping track; null stops the music.
+  playMusic: (id: MusicId | null) => void;
+  getSettings: () => AudioSettings;
+  setVolume: (channel: VolumeChannel, value: number) => void;
+  setMuted: (muted: boolean) => void;
+  detach: () => void;
+}
+
+// Browsers only allow audio after a user gesture, so the AudioContext is created
+// on the first key press or tap. Until then sounds are dropped, and the requested
+// music track starts as soon as audio is unlocked.
+export function createSoundManager(initialSettings: AudioSettings): SoundManager {
+  const settings = { ...initialSettings };
+  let ctx: AudioContext | null = null;
+  let masterGain: GainNode | null = null;
+  let musicGain: GainNode | null = null;
+  let sfxGain: GainNode | null = null;
+  const buffers = new Map<string, AudioBuffer>();
+
+  let currentMusic: MusicId | null = null;
+  let musicSource: AudioBufferSourceNode | null = null;
+
+  const applyVolumes = () => {
+    if (!masterGain || !musicGain || !sfxGain) return;
+    masterGain.gain.value = settings.muted ? 0 : settings.master;
+    musicGain.gain.value = settings.music;
+    sfxGain.gain.value = settings.sfx;
+  };
+
+  // Resolves the file if there is one and it loaded, otherwise the synthesized tone.
+  // `key` tells sounds apart, since most have no path.
+  const load = async (key: string, path: string | undefined, tone: ToneSpec): Promise<AudioBuffer | null> => {
+    if (!ctx) return null;
+    const cached = buffers.get(key);
+    if (cached) return cached;
+    const buffer = (path ? await getCachedBuffer(ctx, path) : null) ?? synthesize(ctx, tone);
+    buffers.set(key, buffer);
+    return buffer;
+  };
+
+  const loadSound = (id: SoundId) => load(`sound:${id}`, SOUND_PATHS[id], SOUND_TONES[id]);
+  const loadMusic = (id: MusicId) => load(`music:${id}`, MUSIC_PATHS[id], MUSIC_TONES[id]);
+
+  const preload = () => {
+    for (const id of Object.keys(SOUND_TONES) as SoundId[]) {
+      void loadSound(id);
+    }
+    for (const id of Object.keys(MUSIC_TONES) as MusicId[]) {
+      void loadMusic(id);
+    }
+  };
+
+  const startMusic = async (id: MusicId) => {
+    const buffer = await loadMusic(id);
+    // The screen may have changed while the track was loading.
+    if (!ctx || !musicGain || !buffer || currentMusic !== id || musicSource) return;
+    musicSource = ctx.createBufferSource();
+    musicSource.buffer = buffer;
+    musicSource.loop = true;
+    musicSource.connect(musicGain);
+    musicSource.start();
+  };
+
+  const stopMusic = () => {
+    if (!musicSource) return;
+    musicSource.stop();
+    musicSource.disconnect();
+    musicSource = null;
+  };
+
+  const unlock = () => {
+    if (!ctx) {
+      try {
+        ctx = new AudioContext();
+      } catch (err) {
+        console.warn('[audio] WebAudio is not available.', err);
+        detachUnlock();
+        return;
+      }
+      masterGain = ctx.createGain();
+      musicGain = ctx.createGain();
+      sfxGain = ctx.createGain();
+      musicGain.connect(masterGain);
+      sfxGain.connect(masterGain);
+      masterGain.connect(ctx.destination);
+      applyVolumes();
+      preload();
+      if (currentMusic) void startMusic(currentMusic);
+    }
+    if (ctx.state === 'suspended') {
+      void ctx.resume();
+    }
+    if (ctx.state === 'running') {
+      detachUnlock();
+    }
+  };
+
+  const gestureEvents = ['pointerdown', 'keydown', 'touchend'] as const;
+  const detachUnlock = () => {
+    for (const type of gestureEvents) window.removeEventListener(type, unlock, true);
+  };
+  for (const type of gestureEvents) window.addEventListener(type, unlock, true);
+
+  return {
+    play(id) {
+      if (!ctx || !sfxGain || ctx.state !== 'running' || settings.muted) return;
+      void loadSound(id).then((buffer) => {
+        if (!ctx || !sfxGain || !buffer) return;
+        const source = ctx.createBufferSource();
+        source.buffer = buffer;
+        source.connect(sfxGain);
+        source.start();
+      });
+    },
+    playMusic(id) {
+      if (id === currentMusic) return;
+      currentMusic = id;
+      stopMusic();
+      if (id && ctx) void startMusic(id);
+    },
+    getSettings: () => ({ ...settings }),
+    setVolume(channel, value) {
+      settings[channel] = Math.max(0, Math.min(1, value));
+      applyVolumes();
+    },
+    setMuted(muted) {
+      settings.muted = muted;
+      applyVolumes();
+    },
+    detach() {
+      detachUnlock();
+      stopMusic();
+      void ctx?.close();
+    },
+  };
+}
+
+// Plays the effect for each game event, live and in replays. Returns a function
+// that unregisters the plugin.
+export function attachEventSounds(sound: SoundManager): () => void {
+  return registerPlugin({
+    name: 'sound-effects',
+    setup: ({ on }) => {
+      on('catch', (event) => sound.play(event.rare ? 'rareCatch' : 'catch'));
+      on('powerUp', () => sound.play('powerUp'));
+      on('miss', () => sound.play('miss'));
+      on('bombCaught', () => sound.play('bomb'));
+      on('shieldBlocked', () => sound.play('bomb'));
+      on('levelChange', () => sound.play('levelUp'));
+      on('gameOver', () => sound.play('gameOver'));
+    },
+  });
+}
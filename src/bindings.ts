@@ -0,0 +1,173 @@
+// Keyboard binding table: each action can be triggered by several key codes.
+// Bindings are user-editable from the settings overlay and persisted in localStorage.
+
+import type { MessageKey } from './i18n';
+import { t } from './i18n';
+import type { InputButton } from './input';
+
+export type KeyBindings = Record<InputButton, string[]>;
+
+export const BINDABLE_ACTIONS: InputButton[] = ['left', 'right', 'left2', 'right2', 'confirm', 'restart', 'back', 'pause'];
+
+// Message keys; see actionLabel.
+export const ACTION_LABELS: Record<InputButton, MessageKey> = {
+  left: 'action.left',
+  right: 'action.right',
+  left2: 'action.left2',
+  right2: 'action.right2',
+  confirm: 'action.confirm',
+  restart: 'action.restart',
+  back: 'action.back',
+  pause: 'action.pause',
+};
+
+export function actionLabel(action: InputButton): string {
+  return t(ACTION_LABELS[action]);
+}
+
+export const DEFAULT_BINDINGS: KeyBindings = {
+  // Two players share the keyboard: WASD for player 1, arrows for player 2.
+  left: ['KeyA'],
+  right: ['KeyD'],
+  left2: ['ArrowLeft'],
+  right2: ['ArrowRight'],
+  confirm: ['Enter', 'Space'],
+  restart: ['KeyR'],
+  back: ['Escape', 'Backspace'],
+  pause: ['KeyP'],
+};
+
+const BINDINGS_KEY = 'tulu.keyBindings';
+
+export function cloneBindings(bindings: KeyBindings): KeyBindings {
+  const copy = {} as KeyBindings;
+  for (const action of BINDABLE_ACTIONS) {
+    copy[action] = [...bindings[action]];
+  }
+  return copy;
+}
+
+// Loads saved bindings. Unknown or malformed entries fall back to the defaults.
+export function loadBindings(): KeyBindings {
+  const bindings = cloneBindings(DEFAULT_BINDINGS);
+  try {
+    const raw = localStorage.getItem(BINDINGS_KEY);
+    if (!raw) return bindings;
+    const saved: unknown = JSON.parse(raw);
+    if (typeof saved !== 'object' || saved === null) return bindings;
+
+    const missing: InputButton[] = [];
+    for (const action of BINDABLE_ACTIONS) {
+      const codes = (saved as Record<string, unknown>)[action];
+      if (Array.isArray(codes) && codes.length > 0 && codes.every((code) => typeof code === 'string')) {
+        bindings[action] = [...codes];
+      } else {
+        missing.push(action);
+      }
+    }
+    releaseDefaultCodes(bindings, missing);
+    // A hand-edited or outdated save could bind one key twice; defaults are safer then.
+    if (hasConflicts(bindings)) {
+      console.warn('[bindings] Saved key bindings conflict, using defaults.');
+      return cloneBindings(DEFAULT_BINDINGS);
+    }
+  } catch {
+    // Storage unavailable or corrupt JSON; keep the defaults.
+  }
+  return bindings;
+}
+
+// Actions added since a save was made (e.g. player 2's movement, which took over
+// the arrow keys from player 1) get their default keys back from whichever saved
+// action still holds them, so older customisations survive the upgrade.
+function releaseDefaultCodes(bindings: KeyBindings, added: InputButton[]): void {
+  for (const action of added) {
+    for (const code of DEFAULT_BINDINGS[action]) {
+      const owner = findConflict(bindings, action, code);
+      if (!owner) continue;
+      const remaining = bindings[owner].filter((other) => other !== code);
+      bindings[owner] = remaining.length > 0 ? remaining : [...DEFAULT_BINDINGS[owner]];
+    }
+  }
+}
+
+export function saveBindings(bindings: KeyBindings): void {
+  try {
+    localStorage.setItem(BINDINGS_KEY, JSON.stringify(bindings));
+  } catch {
+    // Ignore storage failures; bindings just won't persist.
+  }
+}
+
+export function actionForCode(bindings: KeyBindings, code: string): InputButton | null {
+  for (const action of BINDABLE_ACTIONS) {
+    if (bindings[action].includes(code)) return action;
+  }
+  return null;
+}
+
+// Returns the other action already using `code`, if any.
+export function findConflict(bindings: KeyBindings, action: InputButton, code: string): InputButton | null {
+  const owner = actionForCode(bindings, code);
+  return owner && owner !== action ? owner : null;
+}
+
+function hasConflicts(bindings: KeyBindings): boolean {
+  const seen = new Set<string>();
+  for (const action of BINDABLE_ACTIONS) {
+    for (const code of bindings[action]) {
+      if (seen.has(code)) return true;
+      seen.add(code);
+    }
+  }
+  return false;
+}
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Escape: 'Esc',
+  Backspace: 'Backspace',
+  Enter: 'Enter',
+  Space: 'Space',
+  ShiftLeft: 'Shift',
+  ShiftRight: 'Right Shift',
+  ControlLeft: 'Ctrl',
+  ControlRight: 'Right Ctrl',
+  AltLeft: 'Alt',
+  AltRight: 'Right Alt',
+};
+
+// Human-readable label for a KeyboardEvent.code value.
+export function describeKey(code: string): string {
+  if (KEY_NAMES[code]) return KEY_NAMES[code];
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  if (code.startsWith('Numpad')) return `Num ${code.slice(6)}`;
+  return code;
+}
+
+export function describeAction(bindings: KeyBindings, action: InputButton): string {
+  return bindings[action].map(describeKey).join('/');
+}
+
+// Instruction line for the start and character-select screens, e.g.
+// "Press A/D or ←/→ to move・Enter/Space/Click to start・P to pause".
+export function describeControls(bindings: KeyBindings): string {
+  const pairs: string[] = [];
+  for (const [leftAction, rightAction] of [['left', 'right'], ['left2', 'right2']] as const) {
+    const count = Math.max(bindings[leftAction].length, bindings[rightAction].length);
+    for (let i = 0; i < count; i++) {
+      const left = bindings[leftAction][i];
+      const right = bindings[rightAction][i];
+      pairs.push([left, right].filter((code) => code != null).map(describeKey).join('/'));
+    }
+  }
+  return t('controls.instructions', {
+    move: pairs.join(` ${t('controls.or')} `),
+    confirm: describeAction(bindings, 'confirm'),
+    pause: describeAction(bindings, 'pause'),
+  });
+}
@@ -9,13 +9,121 @@ export const GAME_CONFIG = {
   initialLives: 3,
 };
 
+// Bump whenever a change to items, characters or difficulty would make older
+// replays play back differently.
+export const CONFIG_VERSION = '3';
+
+// Seconds of countdown after resuming from pause before items start moving again.
+export const RESUME_COUNTDOWN = 3;
+
 // Upper bound for how many items can spawn during a single frame.
 export const MAX_SPAWNS_PER_FRAME = 2;
 
 // Base probability for rare items when a non-bomb spawns.
 export const RARE_ITEM_CHANCE = 0.15;
 
+// Combo streaks: consecutive catches raise the score multiplier at these thresholds.
+export interface ComboThreshold {
+  streak: number;
+  multiplier: number;
+}
+
+export const COMBO_THRESHOLDS: ComboThreshold[] = [
+  { streak: 5, multiplier: 2 },
+  { streak: 10, multiplier: 3 },
+  { streak: 20, multiplier: 4 },
+  { streak: 35, multiplier: 5 },
+];
+
+// Extra points (before the multiplier) for catching a rare partner item mid-streak.
+export const RARE_STREAK_BONUS = 5;
+
+// Seconds the HUD multiplier "pops" after going up.
+export const COMBO_POP_DURATION = 0.4;
+
+export function getComboMultiplier(streak: number): number {
+  let multiplier = 1;
+  for (const threshold of COMBO_THRESHOLDS) {
+    if (streak >= threshold.streak) multiplier = threshold.multiplier;
+  }
+  return multiplier;
+}
+
+// Power-ups: chance per spawn once unlocked, and the minimum gap between any two.
+export const POWER_UP_CHANCE = 0.06;
+export const POWER_UP_START_TIME = 8;
+export const POWER_UP_MIN_INTERVAL = 6;
+
+// Power-up tuning.
+export const MAX_LIVES = 5;
+export const MAGNET_RANGE = 220; // horizontal reach in world units
+export const MAGNET_PULL = 180; // world units per second
+export const SLOW_MOTION_FACTOR = 0.5;
+
+export type PowerUpEffect = 'shield' | 'magnet' | 'slowMotion' | 'extraLife';
+
+export const POWER_UP_EFFECTS: PowerUpEffect[] = ['shield', 'magnet', 'slowMotion', 'extraLife'];
+
+export interface PowerUpConfig {
+  effect: PowerUpEffect;
+  // Seconds the effect lasts; 0 for instant effects (extra life).
+  duration: number;
+  // Minimum seconds between two spawns of this power-up.
+  cooldown?: number;
+}
+
+// Sprite-sheet animation. Each clip lists its frames as source rects in the sheet.
+export interface FrameRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface AnimationClip {
+  frames: FrameRect[];
+  fps: number;
+  // Looping clips repeat; others hold their last frame. Defaults to true.
+  loop?: boolean;
+}
+
+export interface SpriteSheetConfig<Clip extends string> {
+  path: string;
+  clips: Partial<Record<Clip, AnimationClip>>;
+}
+
+// Missing player clips fall back to 'idle', then to the static sprite.
+export type PlayerClipName = 'idle' | 'walkLeft' | 'walkRight' | 'catch' | 'hurt';
+export const PLAYER_CLIPS: PlayerClipName[] = ['idle', 'walkLeft', 'walkRight', 'catch', 'hurt'];
+
+// Items have a single clip that plays while they fall.
+export type ItemClipName = 'fall';
+
+// Procedural motion applied on top of any sprite or fallback shape.
+export type ItemMotion = 'spin' | 'wobble';
+export const ITEM_MOTIONS: ItemMotion[] = ['spin', 'wobble'];
+
+// Visual feedback when an item is caught; missing fields use DEFAULT_ITEM_EFFECTS.
+export interface ItemEffectsConfig {
+  // Sparkle particles on catch.
+  sparkles?: number;
+  // Sparkle color; defaults to the character's color.
+  sparkleColor?: string;
+  // Floating "+N" text on catch.
+  scoreText?: boolean;
+  // Explosion with screen shake (bombs).
+  explosion?: boolean;
+}
+
+export const DEFAULT_ITEM_EFFECTS: Required<Omit<ItemEffectsConfig, 'sparkleColor'>> = {
+  sparkles: 8,
+  scoreText: true,
+  explosion: false,
+};
+
 // Definition of all falling item types. You can freely change/add items here.
+// spawnWeight is relative to the other items in the same pool (a character's base
+// or rare items, or all hazards).
 export interface ItemTypeConfig {
   id: string;
   spritePath: string | null; // null → always use rectangle fallback
@@ -25,9 +133,17 @@ export interface ItemTypeConfig {
   height?: number;
   baseFallSpeed: number;
   isHazard?: boolean;
+  // Catching the item grants this effect. Power-ups spawn for every character.
+  powerUp?: PowerUpConfig;
+  // Fallback fill color when there is no sprite.
+  color?: string;
+  effects?: ItemEffectsConfig;
+  // Animated alternative to spritePath; spritePath is used if the sheet fails.
+  sheet?: SpriteSheetConfig<ItemClipName>;
+  motion?: ItemMotion;
 }
 
-// Item types: base items (A/B/C/G), rare items (D/E/F/H), plus a bomb hazard.
+// Item types: base items (A/B/C/G), rare items (D/E/F/H), a bomb hazard and power-ups.
 export const ITEM_TYPES: ItemTypeConfig[] = [
   {
     id: 'itemA',
@@ -47,6 +163,7 @@ export const ITEM_TYPES: ItemTypeConfig[] = [
     width: 32,
     height: 32,
     baseFallSpeed: 80,
+    effects: { sparkles: 16 },
   },
   {
     id: 'itemB',
@@ -66,6 +183,7 @@ export const ITEM_TYPES: ItemTypeConfig[] = [
     width: 32,
     height: 32,
     baseFallSpeed: 80,
+    effects: { sparkles: 16 },
   },
   {
     id: 'itemC',
@@ -85,6 +203,7 @@ export const ITEM_TYPES: ItemTypeConfig[] = [
     width: 32,
     height: 32,
     baseFallSpeed: 80,
+    effects: { sparkles: 16 },
   },
   {
     id: 'itemG',
@@ -105,6 +224,7 @@ export const ITEM_TYPES: ItemTypeConfig[] = [
     width: 32,
     height: 32,
     baseFallSpeed: 80,
+    effects: { sparkles: 16 },
   },
   {
     id: 'bomb',
@@ -115,6 +235,53 @@ export const ITEM_TYPES: ItemTypeConfig[] = [
     height: 32,
     baseFallSpeed: 85,
     isHazard: true,
+    motion: 'wobble',
+    effects: { sparkles: 0, scoreText: false, explosion: true },
+  },
+  {
+    id: 'shield',
+    spritePath: null,
+    scoreValue: 0,
+    spawnWeight: 3,
+    width: 28,
+    height: 28,
+    baseFallSpeed: 90,
+    // Absorbs one bomb while active.
+    powerUp: { effect: 'shield', duration: 10, cooldown: 20 },
+    color: '#4299e1',
+  },
+  {
+    id: 'magnet',
+    spritePath: null,
+    scoreValue: 0,
+    spawnWeight: 3,
+    width: 28,
+    height: 28,
+    baseFallSpeed: 90,
+    powerUp: { effect: 'magnet', duration: 8, cooldown: 15 },
+    color: '#ed64a6',
+  },
+  {
+    id: 'slowMotion',
+    spritePath: null,
+    scoreValue: 0,
+    spawnWeight: 2,
+    width: 28,
+    height: 28,
+    baseFallSpeed: 90,
+    powerUp: { effect: 'slowMotion', duration: 6, cooldown: 20 },
+    color: '#48bb78',
+  },
+  {
+    id: 'extraLife',
+    spritePath: null,
+    scoreValue: 0,
+    spawnWeight: 1,
+    width: 28,
+    height: 28,
+    baseFallSpeed: 100,
+    powerUp: { effect: 'extraLife', duration: 0, cooldown: 30 },
+    color: '#f56565',
   },
 ];
 
@@ -133,28 +300,74 @@ export const DIFFICULTY_CURVE: DifficultyKeyframe[] = [
   { time: 120, spawnRate: 3.0, speedMultiplier: 1.6 },
 ];
 
-export function getDifficulty(t: number): { spawnRate: number; speedMultiplier: number } {
-  if (t <= 0) {
-    const first = DIFFICULTY_CURVE[0];
-    return { spawnRate: first.spawnRate, speedMultiplier: first.speedMultiplier };
-  }
+// Each level lasts this many seconds of round time.
+export const LEVEL_DURATION = 30;
 
-  for (let i = 0; i < DIFFICULTY_CURVE.length - 1; i++) {
-    const a = DIFFICULTY_CURVE[i];
-    const b = DIFFICULTY_CURVE[i + 1];
-    if (t >= a.time && t <= b.time) {
-      const f = (t - a.time) / (b.time - a.time);
-      return {
-        spawnRate: a.spawnRate + (b.spawnRate - a.spawnRate) * f,
-        speedMultiplier: a.speedMultiplier + (b.speedMultiplier - a.speedMultiplier) * f,
-      };
-    }
-  }
+export function getLevel(t: number): number {
+  return Math.floor(t / LEVEL_DURATION) + 1;
+}
+
+// Rule variants, chosen next to the character. Endless is the original mode.
+export type GameModeId = 'endless' | 'timeAttack60' | 'timeAttack120' | 'zen' | 'daily';
 
-  const last = DIFFICULTY_CURVE[DIFFICULTY_CURVE.length - 1];
-  return { spawnRate: last.spawnRate, speedMultiplier: last.speedMultiplier };
+export const GAME_MODE_IDS: GameModeId[] = ['endless', 'timeAttack60', 'timeAttack120', 'zen', 'daily'];
+
+// Names and descriptions are translated: see the `gameMode.<id>.*` messages.
+export interface GameModeConfig {
+  // Round length in seconds; null → the round runs until it is lost or finished.
+  timeLimit: number | null;
+  // Without lives, misses and bombs never end the round; they cost points instead.
+  lives: boolean;
+  bombs: boolean;
+  missPenalty: number;
+  bombPenalty: number;
+  // Seeded from the UTC date so everyone gets the same round, with one scored attempt per day.
+  daily: boolean;
 }
 
+export const GAME_MODES: Record<GameModeId, GameModeConfig> = {
+  endless: {
+    timeLimit: null,
+    lives: true,
+    bombs: true,
+    missPenalty: 0,
+    bombPenalty: 0,
+    daily: false,
+  },
+  timeAttack60: {
+    timeLimit: 60,
+    lives: false,
+    bombs: true,
+    missPenalty: 5,
+    bombPenalty: 25,
+    daily: false,
+  },
+  timeAttack120: {
+    timeLimit: 120,
+    lives: false,
+    bombs: true,
+    missPenalty: 5,
+    bombPenalty: 25,
+    daily: false,
+  },
+  zen: {
+    timeLimit: null,
+    lives: false,
+    bombs: false,
+    missPenalty: 0,
+    bombPenalty: 0,
+    daily: false,
+  },
+  daily: {
+    timeLimit: null,
+    lives: true,
+    bombs: true,
+    missPenalty: 0,
+    bombPenalty: 0,
+    daily: true,
+  },
+};
+
 // Character definitions: update names and sprite paths here.
 export interface CharacterConfig {
   id: string;
@@ -163,6 +376,11 @@ export interface CharacterConfig {
   spritePath: string | null;
   // Used as fallback color and for outlines.
   color: string;
+  // Animated alternative to spritePath; spritePath is used if the sheet fails.
+  sheet?: SpriteSheetConfig<PlayerClipName>;
+  // Item IDs (from ITEM_TYPES) this character catches normally and as rare partner items.
+  baseItemIds: string[];
+  rareItemIds: string[];
 }
 
 export const CHARACTERS: CharacterConfig[] = [
@@ -171,23 +389,35 @@ export const CHARACTERS: CharacterConfig[] = [
     name: 'Wiebke',
     spritePath: '/assets/players/playerA.png',
     color: '#4fd1c5',
+    baseItemIds: ['itemA'],
+    rareItemIds: ['itemE'],
   },
   {
     id: 'playerB',
     name: 'Kathi',
     spritePath: '/assets/players/playerB.png',
     color: '#fbd38d',
+    baseItemIds: ['itemB'],
+    rareItemIds: ['itemF'],
   },
   {
     id: 'playerC',
     name: 'Anne',
     spritePath: '/assets/players/playerC.png',
     color: '#f687b3',
+    baseItemIds: ['itemC'],
+    rareItemIds: ['itemD'],
   },
   {
     id: 'playerD',
     name: 'Hannah',
     spritePath: '/assets/players/playerD.png',
     color: '#9f7aea',
+    baseItemIds: ['itemG'],
+    rareItemIds: ['itemH'],
   },
 ];
+
+export function isRareItemFor(character: CharacterConfig, itemId: string): boolean {
+  return character.rareItemIds.includes(itemId);
+}
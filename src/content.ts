@@ -0,0 +1,377 @@
+// Game content packs: items, characters and the difficulty curve as one unit.
+// The built-in pack comes from config.ts; others are JSON manifests loaded at
+// runtime (URL parameter or file picker) and schema-validated before use.
+
+import {
+  ITEM_TYPES,
+  CHARACTERS,
+  DIFFICULTY_CURVE,
+  CONFIG_VERSION,
+  POWER_UP_EFFECTS,
+  PLAYER_CLIPS,
+  ITEM_MOTIONS,
+} from './config.ts';
+import type { ItemTypeConfig, CharacterConfig, DifficultyKeyframe, SpriteSheetConfig } from './config.ts';
+import { t } from './i18n';
+
+export interface ContentPack {
+  id: string;
+  name: string;
+  version: string;
+  items: ItemTypeConfig[];
+  characters: CharacterConfig[];
+  difficulty: DifficultyKeyframe[];
+}
+
+export const DEFAULT_CONTENT_PACK: ContentPack = {
+  id: 'default',
+  name: 'Studio tülü',
+  version: CONFIG_VERSION,
+  items: ITEM_TYPES,
+  characters: CHARACTERS,
+  difficulty: DIFFICULTY_CURVE,
+};
+
+// Thrown when a pack fails to load or validate; `errors` holds one message per problem.
+// Messages are translated when thrown.
+export class ContentPackError extends Error {
+  readonly errors: string[];
+
+  constructor(message: string, errors: string[] = []) {
+    super(errors.length > 0 ? `${message}:\n- ${errors.join('\n- ')}` : message);
+    this.name = 'ContentPackError';
+    this.errors = errors;
+  }
+}
+
+let activePack: ContentPack = DEFAULT_CONTENT_PACK;
+
+export function getActiveContent(): ContentPack {
+  return activePack;
+}
+
+export function setActiveContent(pack: ContentPack): void {
+  activePack = pack;
+}
+
+// "id@version", used to tie replays and other records to the pack they came from.
+export function getContentKey(pack: ContentPack = activePack): string {
+  return `${pack.id}@${pack.version}`;
+}
+
+export function getDifficulty(t: number): { spawnRate: number; speedMultiplier: number } {
+  const curve = activePack.difficulty;
+  // Packs may start their curve later than 0s; it holds its first values until then.
+  if (t <= curve[0].time) {
+    const first = curve[0];
+    return { spawnRate: first.spawnRate, speedMultiplier: first.speedMultiplier };
+  }
+
+  for (let i = 0; i < curve.length - 1; i++) {
+    const a = curve[i];
+    const b = curve[i + 1];
+    if (t >= a.time && t <= b.time) {
+      const f = (t - a.time) / (b.time - a.time);
+      return {
+        spawnRate: a.spawnRate + (b.spawnRate - a.spawnRate) * f,
+        speedMultiplier: a.speedMultiplier + (b.speedMultiplier - a.speedMultiplier) * f,
+      };
+    }
+  }
+
+  const last = curve[curve.length - 1];
+  return { spawnRate: last.spawnRate, speedMultiplier: last.speedMultiplier };
+}
+
+export function getItemType(id: string): ItemTypeConfig | undefined {
+  return activePack.items.find((item) => item.id === id);
+}
+
+export async function loadContentPackFromUrl(url: string): Promise<ContentPack> {
+  const manifestUrl = new URL(url, window.location.href).href;
+  let response: Response;
+  try {
+    response = await fetch(manifestUrl);
+  } catch {
+    throw new ContentPackError(t('pack.error.download', { url: manifestUrl }));
+  }
+  if (!response.ok) {
+    throw new ContentPackError(t('pack.error.http', { url: manifestUrl, status: response.status }));
+  }
+  return parseContentPack(await response.text(), manifestUrl);
+}
+
+// Parses and validates a manifest. Relative sprite paths resolve against `baseUrl`.
+export function parseContentPack(text: string, baseUrl: string): ContentPack {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    throw new ContentPackError(t('pack.error.json', { reason: err instanceof Error ? err.message : String(err) }));
+  }
+
+  const errors: string[] = [];
+  checkObject(data, PACK_FIELDS, '', errors);
+  if (errors.length > 0) {
+    throw new ContentPackError(t('pack.error.invalid'), errors);
+  }
+
+  const raw = data as Record<string, unknown>;
+  const pack: ContentPack = {
+    id: raw.id as string,
+    name: raw.name as string,
+    version: (raw.version as string | undefined) ?? '1',
+    items: (raw.items as ItemTypeConfig[]).map((item) => ({
+      ...item,
+      spritePath: resolvePath(item.spritePath, baseUrl),
+      sheet: resolveSheet(item.sheet, baseUrl),
+    })),
+    characters: (raw.characters as CharacterConfig[]).map((char) => ({
+      ...char,
+      spritePath: resolvePath(char.spritePath, baseUrl),
+      sheet: resolveSheet(char.sheet, baseUrl),
+      rareItemIds: char.rareItemIds ?? [],
+    })),
+    difficulty: raw.difficulty as DifficultyKeyframe[],
+  };
+
+  const problems = validateContentPack(pack);
+  if (problems.length > 0) {
+    throw new ContentPackError(t('pack.error.invalid'), problems);
+  }
+  return pack;
+}
+
+function resolvePath(path: string | null, baseUrl: string): string | null {
+  return path == null ? null : new URL(path, baseUrl).href;
+}
+
+function resolveSheet<Clip extends string>(
+  sheet: SpriteSheetConfig<Clip> | undefined,
+  baseUrl: string,
+): SpriteSheetConfig<Clip> | undefined {
+  return sheet && { ...sheet, path: new URL(sheet.path, baseUrl).href };
+}
+
+// Cross-field checks (unknown item IDs, duplicates, curve order) that the
+// per-field schema can't express. Also run on the built-in pack at startup.
+export function validateContentPack(pack: ContentPack): string[] {
+  const errors: string[] = [];
+  const itemsById = new Map<string, ItemTypeConfig>();
+
+  pack.items.forEach((item, i) => {
+    if (itemsById.has(item.id)) {
+      errors.push(t('pack.error.duplicateItem', { path: `items[${i}].id`, id: item.id }));
+    }
+    if (item.isHazard && item.powerUp) {
+      errors.push(t('pack.error.hazardPowerUp', { path: `items[${i}].powerUp` }));
+    }
+    itemsById.set(item.id, item);
+  });
+
+  const characterIds = new Set<string>();
+  pack.characters.forEach((char, i) => {
+    if (characterIds.has(char.id)) {
+      errors.push(t('pack.error.duplicateCharacter', { path: `characters[${i}].id`, id: char.id }));
+    }
+    characterIds.add(char.id);
+    for (const field of ['baseItemIds', 'rareItemIds'] as const) {
+      char[field].forEach((id, j) => {
+        const item = itemsById.get(id);
+        const path = `characters[${i}].${field}[${j}]`;
+        if (!item) {
+          errors.push(t('pack.error.unknownItem', { path, id }));
+        } else if (item.isHazard) {
+          errors.push(t('pack.error.hazardItem', { path, id }));
+        } else if (item.powerUp) {
+          errors.push(t('pack.error.powerUpItem', { path, id }));
+        }
+      });
+    }
+  });
+
+  for (let i = 1; i < pack.difficulty.length; i++) {
+    if (pack.difficulty[i].time <= pack.difficulty[i - 1].time) {
+      errors.push(t('pack.error.keyframeOrder', { path: `difficulty[${i}].time` }));
+    }
+  }
+
+  return errors;
+}
+
+// Throws if the built-in content is broken, so mistakes fail loudly at startup.
+export function assertValidContent(pack: ContentPack = DEFAULT_CONTENT_PACK): void {
+  const errors = validateContentPack(pack);
+  if (errors.length > 0) {
+    throw new ContentPackError(t('pack.error.builtIn', { id: pack.id }), errors);
+  }
+}
+
+// Minimal schema checker: each rule validates one value and reports errors with
+// the full path, e.g. `items[2].baseFallSpeed: expected a positive number, got "fast"`.
+type Rule = (value: unknown, path: string, errors: string[]) => void;
+
+interface FieldRule {
+  rule: Rule;
+  optional?: boolean;
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) return t('pack.value.nothing');
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (Array.isArray(value)) return t('pack.value.array');
+  if (value === null) return 'null';
+  return typeof value === 'object' ? t('pack.value.object') : String(value);
+}
+
+// `expected` is already translated, e.g. t('pack.value.boolean').
+function fail(errors: string[], path: string, expected: string, value: unknown): void {
+  errors.push(t('pack.error.expected', { path: path || t('pack.path.root'), expected, value: describe(value) }));
+}
+
+const nonEmptyString: Rule = (value, path, errors) => {
+  if (typeof value !== 'string' || value.trim() === '') fail(errors, path, t('pack.value.string'), value);
+};
+
+const nullableString: Rule = (value, path, errors) => {
+  if (value !== null && typeof value !== 'string') fail(errors, path, t('pack.value.nullableString'), value);
+};
+
+const boolean: Rule = (value, path, errors) => {
+  if (typeof value !== 'boolean') fail(errors, path, t('pack.value.boolean'), value);
+};
+
+function number(min: number, exclusive: boolean): Rule {
+  return (value, path, errors) => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || (exclusive ? value <= min : value < min)) {
+      fail(errors, path, exclusive && min === 0 ? t('pack.value.positive') : t('pack.value.atLeast', { min }), value);
+    }
+  };
+}
+
+function oneOf(values: readonly string[]): Rule {
+  return (value, path, errors) => {
+    if (typeof value !== 'string' || !values.includes(value)) {
+      fail(errors, path, t('pack.value.oneOf', { values: values.join(', ') }), value);
+    }
+  };
+}
+
+const positiveNumber = number(0, true);
+const nonNegativeNumber = number(0, false);
+
+function arrayOf(item: Rule, minLength = 0): Rule {
+  return (value, path, errors) => {
+    if (!Array.isArray(value)) {
+      fail(errors, path, t('pack.value.array'), value);
+      return;
+    }
+    if (value.length < minLength) {
+      errors.push(t('pack.error.minLength', { path, count: minLength }));
+    }
+    value.forEach((entry, i) => item(entry, `${path}[${i}]`, errors));
+  };
+}
+
+function objectOf(fields: Record<string, FieldRule>): Rule {
+  return (value, path, errors) => checkObject(value, fields, path, errors);
+}
+
+function checkObject(value: unknown, fields: Record<string, FieldRule>, path: string, errors: string[]): void {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    fail(errors, path, t('pack.value.object'), value);
+    return;
+  }
+  const record = value as Record<string, unknown>;
+  const prefix = path ? `${path}.` : '';
+  for (const [key, field] of Object.entries(fields)) {
+    if (record[key] === undefined) {
+      if (!field.optional) errors.push(t('pack.error.missingField', { path: `${prefix}${key}` }));
+      continue;
+    }
+    field.rule(record[key], `${prefix}${key}`, errors);
+  }
+  for (const key of Object.keys(record)) {
+    if (!(key in fields)) {
+      errors.push(t('pack.error.unknownField', { path: `${prefix}${key}` }));
+    }
+  }
+}
+
+const FRAME_FIELDS: Record<string, FieldRule> = {
+  x: { rule: nonNegativeNumber },
+  y: { rule: nonNegativeNumber },
+  width: { rule: positiveNumber },
+  height: { rule: positiveNumber },
+};
+
+const CLIP_FIELDS: Record<string, FieldRule> = {
+  frames: { rule: arrayOf(objectOf(FRAME_FIELDS), 1) },
+  fps: { rule: positiveNumber },
+  loop: { rule: boolean, optional: true },
+};
+
+function sheetFields(clipNames: readonly string[]): Record<string, FieldRule> {
+  const clips: Record<string, FieldRule> = {};
+  for (const name of clipNames) {
+    clips[name] = { rule: objectOf(CLIP_FIELDS), optional: true };
+  }
+  return {
+    path: { rule: nonEmptyString },
+    clips: { rule: objectOf(clips) },
+  };
+}
+
+const POWER_UP_FIELDS: Record<string, FieldRule> = {
+  effect: { rule: oneOf(POWER_UP_EFFECTS) },
+  duration: { rule: nonNegativeNumber },
+  cooldown: { rule: nonNegativeNumber, optional: true },
+};
+
+const ITEM_EFFECTS_FIELDS: Record<string, FieldRule> = {
+  sparkles: { rule: nonNegativeNumber, optional: true },
+  sparkleColor: { rule: nonEmptyString, optional: true },
+  scoreText: { rule: boolean, optional: true },
+  explosion: { rule: boolean, optional: true },
+};
+
+const ITEM_FIELDS: Record<string, FieldRule> = {
+  id: { rule: nonEmptyString },
+  spritePath: { rule: nullableString },
+  scoreValue: { rule: nonNegativeNumber },
+  spawnWeight: { rule: positiveNumber },
+  width: { rule: positiveNumber, optional: true },
+  height: { rule: positiveNumber, optional: true },
+  baseFallSpeed: { rule: positiveNumber },
+  isHazard: { rule: boolean, optional: true },
+  powerUp: { rule: objectOf(POWER_UP_FIELDS), optional: true },
+  color: { rule: nonEmptyString, optional: true },
+  effects: { rule: objectOf(ITEM_EFFECTS_FIELDS), optional: true },
+  sheet: { rule: objectOf(sheetFields(['fall'])), optional: true },
+  motion: { rule: oneOf(ITEM_MOTIONS), optional: true },
+};
+
+const CHARACTER_FIELDS: Record<string, FieldRule> = {
+  id: { rule: nonEmptyString },
+  name: { rule: nonEmptyString },
+  spritePath: { rule: nullableString },
+  color: { rule: nonEmptyString },
+  sheet: { rule: objectOf(sheetFields(PLAYER_CLIPS)), optional: true },
+  baseItemIds: { rule: arrayOf(nonEmptyString, 1) },
+  rareItemIds: { rule: arrayOf(nonEmptyString), optional: true },
+};
+
+const KEYFRAME_FIELDS: Record<string, FieldRule> = {
+  time: { rule: nonNegativeNumber },
+  spawnRate: { rule: nonNegativeNumber },
+  speedMultiplier: { rule: positiveNumber },
+};
+
+const PACK_FIELDS: Record<string, FieldRule> = {
+  id: { rule: nonEmptyString },
+  name: { rule: nonEmptyString },
+  version: { rule: nonEmptyString, optional: true },
+  items: { rule: arrayOf(objectOf(ITEM_FIELDS), 1) },
+  characters: { rule: arrayOf(objectOf(CHARACTER_FIELDS), 1) },
+  difficulty: { rule: arrayOf(objectOf(KEYFRAME_FIELDS), 1) },
+};
@@ -0,0 +1,218 @@
+// Developer overlay (toggle with F3): frame timing graphs, difficulty and spawn
+// numbers, hitboxes, and cheats for balancing. Only loaded by dev builds; game.ts
+// imports it behind `import.meta.env.DEV`, so production bundles leave it out.
+
+import { GAME_CONFIG, getLevel } from './config.ts';
+import { getActiveContent, getDifficulty, getItemType } from './content';
+import type { GameState, Rect } from './entities';
+import type { SimulationEvent } from './simulation';
+import { forceSpawn, getBombOdds } from './simulation';
+
+export interface DebugHooks {
+  // Returns the live round state (not a replay's).
+  getState: () => GameState;
+  // Feeds events caused by a cheat (e.g. a forced spawn) through the normal handling.
+  handleEvents: (events: SimulationEvent[]) => void;
+  // A cheat changed the round; it should no longer count for leaderboards.
+  onCheat: () => void;
+}
+
+export interface DebugOverlay {
+  // Multiplier for simulated time (1 = normal speed).
+  timeScale: () => number;
+  invincible: () => boolean;
+  // Call once per frame after rendering; `ctx` is still in game units.
+  frame: (ctx: CanvasRenderingContext2D, frameTime: number, state: GameState) => void;
+  detach: () => void;
+}
+
+const TIME_SCALES = [0.25, 0.5, 1, 2, 4];
+const TIME_JUMPS = [10, 30];
+// Frames kept for the graphs.
+const HISTORY = 120;
+const GRAPH_WIDTH = HISTORY;
+const GRAPH_HEIGHT = 40;
+// Frame time at the top of the frame-time graph, in milliseconds.
+const GRAPH_MAX_MS = 50;
+const STATS_INTERVAL = 0.25; // seconds between text refreshes
+
+export function createDebugOverlay(container: HTMLElement, hooks: DebugHooks): DebugOverlay {
+  let visible = false;
+  let timeScale = 1;
+  let invincible = false;
+  let hitboxes = true;
+  const frameTimes: number[] = [];
+  let statsTimer = 0;
+
+  const panel = document.createElement('div');
+  panel.className = 'debug-panel';
+  panel.innerHTML = `
+    <canvas class="debug-graph" width="${GRAPH_WIDTH}" height="${GRAPH_HEIGHT * 2}"></canvas>
+    <pre class="debug-stats"></pre>
+    <div class="debug-row">
+      Speed ${TIME_SCALES.map((scale) => `<button type="button" data-debug-scale="${scale}">${scale}×</button>`).join('')}
+    </div>
+    <div class="debug-row">
+      Time ${TIME_JUMPS.map((seconds) => `<button type="button" data-debug-jump="${seconds}">+${seconds}s</button>`).join('')}
+    </div>
+    <div class="debug-row">
+      <select data-debug-item aria-label="Item type"></select>
+      <button type="button" data-debug-spawn>Spawn</button>
+    </div>
+    <div class="debug-row">
+      <button type="button" data-debug-life>+1 life</button>
+      <label><input type="checkbox" data-debug-invincible /> Invincible</label>
+      <label><input type="checkbox" data-debug-hitboxes checked /> Hitboxes</label>
+    </div>
+  `;
+  container.appendChild(panel);
+
+  const graph = panel.querySelector<HTMLCanvasElement>('.debug-graph')!;
+  const graphCtx = graph.getContext('2d');
+  const stats = panel.querySelector<HTMLPreElement>('.debug-stats')!;
+  const itemSelect = panel.querySelector<HTMLSelectElement>('[data-debug-item]')!;
+  const scaleButtons = panel.querySelectorAll<HTMLButtonElement>('[data-debug-scale]');
+
+  // Item types follow the active content pack, so the list is rebuilt on open.
+  const renderItemOptions = () => {
+    const selected = itemSelect.value;
+    itemSelect.replaceChildren(
+      ...getActiveContent().items.map((item) => {
+        const option = document.createElement('option');
+        option.value = item.id;
+        option.textContent = item.id;
+        return option;
+      }),
+    );
+    if (getItemType(selected)) itemSelect.value = selected;
+  };
+
+  const renderScale = () => {
+    scaleButtons.forEach((button) => {
+      button.classList.toggle('active', Number(button.dataset.debugScale) === timeScale);
+    });
+  };
+
+  const setVisible = (next: boolean) => {
+    visible = next;
+    panel.style.display = visible ? 'block' : 'none';
+    if (visible) {
+      renderItemOptions();
+      renderScale();
+    }
+  };
+  setVisible(false);
+
+  // Cheats only make sense inside a round.
+  const inRound = (state: GameState) => state.screen === 'playing' || state.screen === 'paused';
+
+  panel.addEventListener('click', (event) => {
+    const target = event.target as HTMLElement | null;
+    if (!target) return;
+    const state = hooks.getState();
+    if (target.dataset.debugScale) {
+      timeScale = Number(target.dataset.debugScale);
+      renderScale();
+    } else if (target.dataset.debugJump && inRound(state)) {
+      // No levelUp events for the skipped levels; the HUD simply shows the new one.
+      state.elapsedTime += Number(target.dataset.debugJump);
+      hooks.onCheat();
+    } else if (target.matches('[data-debug-spawn]') && inRound(state)) {
+      const type = getItemType(itemSelect.value);
+      if (!type) return;
+      hooks.handleEvents([forceSpawn(state, type)]);
+      hooks.onCheat();
+    } else if (target.matches('[data-debug-life]') && inRound(state)) {
+      state.lives += 1;
+      for (const player of state.players) player.lives += 1;
+      hooks.onCheat();
+    }
+  });
+
+  panel.addEventListener('change', (event) => {
+    const target = event.target as HTMLInputElement;
+    if (target.matches('[data-debug-invincible]')) {
+      invincible = target.checked;
+      if (invincible) hooks.onCheat();
+    } else if (target.matches('[data-debug-hitboxes]')) {
+      hitboxes = target.checked;
+    }
+  });
+
+  const onKeyDown = (event: KeyboardEvent) => {
+    if (event.code !== 'F3') return;
+    event.preventDefault();
+    setVisible(!visible);
+  };
+  window.addEventListener('keydown', onKeyDown);
+
+  const drawGraph = () => {
+    if (!graphCtx) return;
+    graphCtx.clearRect(0, 0, GRAPH_WIDTH, GRAPH_HEIGHT * 2);
+    // Top: FPS (0–120). Bottom: frame time (0–GRAPH_MAX_MS), with the target frame time marked.
+    graphCtx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    graphCtx.fillRect(0, 0, GRAPH_WIDTH, GRAPH_HEIGHT * 2);
+    const targetMs = 1000 / GAME_CONFIG.targetFPS;
+    graphCtx.fillStyle = '#4299e1';
+    graphCtx.fillRect(0, GRAPH_HEIGHT * 2 - (targetMs / GRAPH_MAX_MS) * GRAPH_HEIGHT, GRAPH_WIDTH, 1);
+    frameTimes.forEach((seconds, i) => {
+      const ms = seconds * 1000;
+      const fps = seconds > 0 ? Math.min(120, 1 / seconds) : 120;
+      const fpsHeight = (fps / 120) * GRAPH_HEIGHT;
+      graphCtx.fillStyle = '#48bb78';
+      graphCtx.fillRect(i, GRAPH_HEIGHT - fpsHeight, 1, fpsHeight);
+      const msHeight = Math.min(1, ms / GRAPH_MAX_MS) * GRAPH_HEIGHT;
+      graphCtx.fillStyle = ms > targetMs * 1.5 ? '#FC411D' : '#ffffff';
+      graphCtx.fillRect(i, GRAPH_HEIGHT * 2 - msHeight, 1, msHeight);
+    });
+  };
+
+  const renderStats = (state: GameState) => {
+    const average = frameTimes.reduce((sum, t) => sum + t, 0) / Math.max(1, frameTimes.length);
+    const worst = Math.max(0, ...frameTimes);
+    const difficulty = getDifficulty(state.elapsedTime);
+    const bomb = getBombOdds(state);
+    stats.textContent = [
+      `FPS ${average > 0 ? (1 / average).toFixed(0) : '-'}  frame ${(average * 1000).toFixed(1)}ms (worst ${(worst * 1000).toFixed(1)})`,
+      `Time ${state.elapsedTime.toFixed(1)}s  level ${getLevel(state.elapsedTime)}`,
+      `Spawn rate ${difficulty.spawnRate.toFixed(2)}/s  speed ×${difficulty.speedMultiplier.toFixed(2)}`,
+      `Items ${state.items.length}`,
+      `Bomb chance ${(bomb.chance * 100).toFixed(1)}%  cooldown ${bomb.cooldown.toFixed(2)}s`,
+    ].join('\n');
+  };
+
+  return {
+    timeScale: () => timeScale,
+    invincible: () => invincible,
+    frame(ctx, frameTime, state) {
+      frameTimes.push(frameTime);
+      if (frameTimes.length > HISTORY) frameTimes.shift();
+      if (!visible) return;
+
+      if (hitboxes && state.screen !== 'start' && state.screen !== 'characterSelect') {
+        // Actual collision rectangles, i.e. the latest step without interpolation.
+        for (const player of state.players) drawHitbox(ctx, player, '#48bb78');
+        for (const item of state.items) drawHitbox(ctx, item, item.type.isHazard ? '#FC411D' : '#4299e1');
+      }
+
+      statsTimer -= frameTime;
+      if (statsTimer <= 0) {
+        statsTimer = STATS_INTERVAL;
+        renderStats(state);
+        drawGraph();
+      }
+    },
+    detach() {
+      window.removeEventListener('keydown', onKeyDown);
+      panel.remove();
+    },
+  };
+}
+
+function drawHitbox(ctx: CanvasRenderingContext2D, rect: Rect, color: string): void {
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1;
+  ctx.strokeRect(rect.x + 0.5, rect.y + 0.5, rect.width - 1, rect.height - 1);
+  ctx.restore();
+}
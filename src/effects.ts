@@ -0,0 +1,285 @@
+// Visual effects driven by simulation events: particles, floating text, rings,
+// screen shake and flashes. Purely cosmetic, so it lives outside GameState and
+// may use Math.random without affecting replays.
+
+import { GAME_CONFIG, DEFAULT_ITEM_EFFECTS, isRareItemFor } from './config.ts';
+import type { ItemTypeConfig } from './config.ts';
+import type { FallingItem, GameState } from './entities';
+import type { SimulationEvent } from './simulation';
+
+// Back: behind items (ground rings). Front: above the player (sparkles, text).
+export type EffectLayer = 'back' | 'front';
+
+type ParticleKind = 'spark' | 'text' | 'ring';
+
+interface Particle {
+  kind: ParticleKind;
+  layer: EffectLayer;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  // Downward acceleration in world units per second².
+  gravity: number;
+  life: number;
+  maxLife: number;
+  // Spark radius, ring start radius or font size.
+  size: number;
+  color: string;
+  text: string;
+}
+
+interface Timed {
+  remaining: number;
+  duration: number;
+}
+
+export interface Effects {
+  // Pooled particles: the first `count` entries are alive, the rest are reusable.
+  pool: Particle[];
+  count: number;
+  shake: Timed & { magnitude: number };
+  flash: Timed & { color: string };
+  reducedMotion: boolean;
+}
+
+const MAX_PARTICLES = 256;
+const MISS_RING_DURATION = 0.3;
+
+export function createEffects(reducedMotion: boolean): Effects {
+  const pool: Particle[] = [];
+  for (let i = 0; i < MAX_PARTICLES; i++) {
+    pool.push({
+      kind: 'spark',
+      layer: 'front',
+      x: 0,
+      y: 0,
+      vx: 0,
+      vy: 0,
+      gravity: 0,
+      life: 0,
+      maxLife: 0,
+      size: 0,
+      color: '',
+      text: '',
+    });
+  }
+  return {
+    pool,
+    count: 0,
+    shake: { remaining: 0, duration: 0, magnitude: 0 },
+    flash: { remaining: 0, duration: 0, color: '' },
+    reducedMotion,
+  };
+}
+
+export function clearEffects(fx: Effects): void {
+  fx.count = 0;
+  fx.shake.remaining = 0;
+  fx.flash.remaining = 0;
+}
+
+// Easing helpers, t in [0, 1].
+export const easeOutCubic = (t: number): number => 1 - (1 - t) ** 3;
+export const easeInQuad = (t: number): number => t * t;
+
+// Takes a particle from the pool; when it is full, a live one is recycled.
+function spawn(fx: Effects, kind: ParticleKind, layer: EffectLayer, life: number): Particle {
+  const particle = fx.count < fx.pool.length ? fx.pool[fx.count++] : fx.pool[0];
+  particle.kind = kind;
+  particle.layer = layer;
+  particle.vx = 0;
+  particle.vy = 0;
+  particle.gravity = 0;
+  particle.life = life;
+  particle.maxLife = life;
+  particle.text = '';
+  return particle;
+}
+
+function emitSparkles(fx: Effects, x: number, y: number, count: number, color: string): void {
+  for (let i = 0; i < count; i++) {
+    const angle = Math.random() * Math.PI * 2;
+    const speed = 60 + Math.random() * 120;
+    const p = spawn(fx, 'spark', 'front', 0.4 + Math.random() * 0.3);
+    p.x = x;
+    p.y = y;
+    p.vx = Math.cos(angle) * speed;
+    p.vy = Math.sin(angle) * speed - 60;
+    p.gravity = 300;
+    p.size = 2 + Math.random() * 2;
+    p.color = color;
+  }
+}
+
+function emitText(fx: Effects, x: number, y: number, text: string, color: string, size = 18): void {
+  const p = spawn(fx, 'text', 'front', 0.8);
+  p.x = x;
+  p.y = y;
+  p.vy = -50;
+  p.size = size;
+  p.color = color;
+  p.text = text;
+}
+
+function emitRing(fx: Effects, x: number, y: number, radius: number, color: string, life: number): void {
+  const p = spawn(fx, 'ring', 'back', life);
+  p.x = x;
+  p.y = y;
+  p.size = radius;
+  p.color = color;
+}
+
+function emitExplosion(fx: Effects, x: number, y: number): void {
+  emitRing(fx, x, y, 20, '252, 65, 29', 0.5);
+  emitSparkles(fx, x, y, 24, '#FC411D');
+  emitSparkles(fx, x, y, 12, '#000000');
+  startShake(fx, 0.4, 10);
+}
+
+function startShake(fx: Effects, duration: number, magnitude: number): void {
+  if (fx.reducedMotion) return;
+  fx.shake.remaining = duration;
+  fx.shake.duration = duration;
+  fx.shake.magnitude = magnitude;
+}
+
+function startFlash(fx: Effects, duration: number, color: string): void {
+  if (fx.reducedMotion) return;
+  fx.flash.remaining = duration;
+  fx.flash.duration = duration;
+  fx.flash.color = color;
+}
+
+function itemEffects(type: ItemTypeConfig) {
+  return { ...DEFAULT_ITEM_EFFECTS, ...type.effects };
+}
+
+function center(item: FallingItem): { x: number; y: number } {
+  return { x: item.x + item.width / 2, y: item.y + item.height / 2 };
+}
+
+// Turns one step's simulation events into effects.
+export function emitForEvents(fx: Effects, events: SimulationEvent[], state: GameState): void {
+  for (const event of events) {
+    switch (event.type) {
+      case 'catch':
+      case 'powerUp': {
+        const { character } = state.players[event.player];
+        const { x, y } = center(event.item);
+        const config = itemEffects(event.item.type);
+        const rare = isRareItemFor(character, event.item.type.id);
+        const color = config.sparkleColor ?? event.item.type.color ?? character.color;
+        emitSparkles(fx, x, y, rare ? config.sparkles * 2 : config.sparkles, color);
+        if (event.type === 'catch' && config.scoreText && event.points > 0) {
+          emitText(fx, x, event.item.y, `+${event.points}`, '#000000');
+        }
+        if (config.explosion) emitExplosion(fx, x, y);
+        break;
+      }
+      case 'bombCaught': {
+        const { x, y } = center(event.item);
+        if (itemEffects(event.item.type).explosion) emitExplosion(fx, x, y);
+        break;
+      }
+      case 'shieldBlocked': {
+        const { x, y } = center(event.item);
+        emitRing(fx, x, y, 16, '66, 153, 225', 0.4);
+        emitSparkles(fx, x, y, 12, '#4299e1');
+        break;
+      }
+      case 'miss': {
+        const { item } = event;
+        const radius = Math.max(item.width, item.height) * 0.6;
+        emitRing(fx, item.x + item.width / 2, GAME_CONFIG.height - 15, radius, '252, 65, 29', MISS_RING_DURATION);
+        break;
+      }
+      case 'lifeLost':
+        // Misses in zen and time attack cost no life, so they don't flash.
+        startFlash(fx, 0.25, '252, 65, 29');
+        break;
+      case 'penalty': {
+        const { item } = event;
+        emitText(fx, item.x + item.width / 2, Math.min(item.y, GAME_CONFIG.height - 30), `-${event.points}`, '#FC411D');
+        break;
+      }
+      case 'comboUp': {
+        const player = state.players[event.player];
+        emitText(fx, player.x + player.width / 2, player.y - 10, `x${event.multiplier}!`, '#FC411D', 24);
+        break;
+      }
+    }
+  }
+}
+
+export function updateEffects(fx: Effects, dt: number): void {
+  let i = 0;
+  while (i < fx.count) {
+    const p = fx.pool[i];
+    p.life -= dt;
+    if (p.life <= 0) {
+      // Swap the dead particle with the last live one.
+      fx.count -= 1;
+      fx.pool[i] = fx.pool[fx.count];
+      fx.pool[fx.count] = p;
+      continue;
+    }
+    p.vy += p.gravity * dt;
+    p.x += p.vx * dt;
+    p.y += p.vy * dt;
+    i += 1;
+  }
+  fx.shake.remaining = Math.max(0, fx.shake.remaining - dt);
+  fx.flash.remaining = Math.max(0, fx.flash.remaining - dt);
+}
+
+export function drawEffects(ctx: CanvasRenderingContext2D, fx: Effects, layer: EffectLayer): void {
+  ctx.save();
+  for (let i = 0; i < fx.count; i++) {
+    const p = fx.pool[i];
+    if (p.layer !== layer) continue;
+    const t = 1 - p.life / p.maxLife; // 0 → 1 over the lifetime
+    switch (p.kind) {
+      case 'spark':
+        ctx.globalAlpha = 1 - easeInQuad(t);
+        ctx.fillStyle = p.color;
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, p.size, 0, Math.PI * 2);
+        ctx.fill();
+        break;
+      case 'text':
+        ctx.globalAlpha = 1 - easeInQuad(t);
+        ctx.fillStyle = p.color;
+        ctx.font = `${p.size}px PPMori, system-ui, sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'bottom';
+        ctx.fillText(p.text, p.x, p.y);
+        break;
+      case 'ring':
+        // Ring colors are "r, g, b" so the alpha can fade with the lifetime.
+        ctx.globalAlpha = 1;
+        ctx.strokeStyle = `rgba(${p.color}, ${1 - t})`;
+        ctx.lineWidth = 3;
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, p.size * (0.9 + 0.6 * easeOutCubic(t)), 0, Math.PI * 2);
+        ctx.stroke();
+        break;
+    }
+  }
+  ctx.restore();
+}
+
+// Camera offset for the current shake; zero when idle.
+export function getShakeOffset(fx: Effects): { x: number; y: number } {
+  if (fx.shake.remaining <= 0) return { x: 0, y: 0 };
+  const strength = fx.shake.magnitude * easeOutCubic(fx.shake.remaining / fx.shake.duration);
+  return { x: (Math.random() * 2 - 1) * strength, y: (Math.random() * 2 - 1) * strength };
+}
+
+// Full-screen tint, e.g. when a life is lost.
+export function drawFlash(ctx: CanvasRenderingContext2D, fx: Effects, width: number, height: number): void {
+  if (fx.flash.remaining <= 0) return;
+  const alpha = 0.35 * (fx.flash.remaining / fx.flash.duration);
+  ctx.fillStyle = `rgba(${fx.flash.color}, ${alpha})`;
+  ctx.fillRect(0, 0, width, height);
+}
@@ -1,5 +1,10 @@
-import type { CharacterConfig, ItemTypeConfig } from './config.ts';
+import { GAME_CONFIG } from './config.ts';
+import type { CharacterConfig, FrameRect, GameModeId, ItemTypeConfig, PowerUpEffect } from './config.ts';
+import type { PlayerAnimation } from './animation';
+import { getClipFrame, resolvePlayerClip } from './animation';
 import { getCachedImage } from './assets';
+import type { Rng } from './rng';
+import { nextFloat } from './rng';
 
 export interface Rect {
   x: number;
@@ -8,59 +13,128 @@ export interface Rect {
   height: number;
 }
 
-export type GameScreen = 'start' | 'characterSelect' | 'playing' | 'gameOver';
+export type GameScreen = 'loading' | 'start' | 'characterSelect' | 'playing' | 'paused' | 'gameOver';
 
-export interface Player extends Rect {
+// Single player, two players sharing lives, or two players each on their own.
+export type PlayMode = 'single' | 'coop' | 'versus';
+
+export const PLAY_MODES: readonly PlayMode[] = ['single', 'coop', 'versus'];
+
+// Position at the start of the last simulation step; the renderer blends from
+// there to the current position between fixed steps.
+export interface Interpolated {
+  prevX: number;
+  prevY: number;
+}
+
+export interface Player extends Rect, Interpolated {
+  // Position in GameState.players; 0 is player 1.
+  index: number;
   speed: number;
   color: string;
   character: CharacterConfig;
+  // Direction moved in the last step (-1, 0 or 1); drives the walk animations.
+  moveDir: number;
+  // This player's share of the round score.
+  score: number;
+  // Own lives, only used in versus; otherwise GameState.lives is shared.
+  lives: number;
+  // Consecutive catches without a miss, the round's best, and the multiplier they give.
+  streak: number;
+  bestStreak: number;
+  multiplier: number;
+  // Seconds left of the HUD pop animation after the multiplier went up.
+  comboPopTimer: number;
 }
 
-export interface FallingItem extends Rect {
+export interface FallingItem extends Rect, Interpolated {
   vy: number;
   type: ItemTypeConfig;
+  // Seconds since spawning (in world time), for item animations.
+  age: number;
+  // Index of the only player who can catch it (versus), or null for anyone.
+  owner: number | null;
 }
 
-export interface MissEffect {
-  x: number;
-  y: number;
-  radius: number;
-  timer: number;
-  maxTimer: number;
+export interface ActiveEffect {
+  effect: PowerUpEffect;
+  // Seconds left / total seconds, for HUD display.
+  remaining: number;
+  duration: number;
 }
 
 export interface GameState {
   screen: GameScreen;
-  player: Player | null;
+  mode: PlayMode;
+  // Rules for the round (endless, time attack, zen, daily).
+  gameMode: GameModeId;
+  // One player, or two in co-op and versus; empty until a round starts.
+  players: Player[];
   selectedCharacterIndex: number;
+  player2CharacterIndex: number;
+  // Total over all players.
   score: number;
+  // Shared lives (single and co-op).
   lives: number;
+  // Index of the player who won a versus round (last standing or highest score).
+  winner: number | null;
+  // Items caught and missed this round, for the game-over summary.
+  catches: number;
+  misses: number;
   elapsedTime: number;
   spawnAccumulator: number;
+  // Whose character pool (and, in versus, whose lane) the next spawn comes from.
+  nextSpawnPlayer: number;
   items: FallingItem[];
-  missEffects: MissEffect[];
   // Time of the last bomb spawn in seconds (elapsedTime). Used for cooldown.
   lastBombTime: number;
   // X-position of the last spawned item, used to limit huge horizontal jumps.
   lastSpawnX: number;
+  // Seeded generator behind every spawn decision; rng.seed identifies the round.
+  rng: Rng;
+  // Seconds left of the post-pause countdown; items are frozen while > 0.
+  resumeCountdown: number;
+  // Timed power-up effects currently running.
+  activeEffects: ActiveEffect[];
+  // elapsedTime of the last power-up spawn, overall and per item id (cooldowns).
+  lastPowerUpTime: number;
+  powerUpSpawnTimes: Record<string, number>;
 }
 
-export function createPlayer(character: CharacterConfig, canvasWidth: number, canvasHeight: number): Player {
+export function createPlayer(
+  character: CharacterConfig,
+  canvasWidth: number,
+  canvasHeight: number,
+  index = 0,
+  centerX = canvasWidth / 2,
+): Player {
   // Size of the player character in world units.
   const width = 50;
   const height = 100;
+  const x = centerX - width / 2;
+  const y = canvasHeight - height - 4;
   return {
-    x: canvasWidth / 2 - width / 2,
-    y: canvasHeight - height - 4,
+    index,
+    x,
+    y,
+    prevX: x,
+    prevY: y,
     width,
     height,
     speed: 300,
     color: character.color,
     character,
+    moveDir: 0,
+    score: 0,
+    lives: GAME_CONFIG.initialLives,
+    streak: 0,
+    bestStreak: 0,
+    multiplier: 1,
+    comboPopTimer: 0,
   };
 }
 
-export function createFallingItem(type: ItemTypeConfig, canvasWidth: number, lastSpawnX?: number): FallingItem {
+export function createFallingItem(type: ItemTypeConfig, canvasWidth: number, rng: Rng, lastSpawnX?: number): FallingItem {
   const width = type.width ?? 12;
   const height = type.height ?? 12;
 
@@ -69,7 +143,7 @@ export function createFallingItem(type: ItemTypeConfig, canvasWidth: number, las
   const minX = margin;
   const maxX = canvasWidth - width - margin;
 
-  let x = Math.random() * (maxX - minX) + minX;
+  let x = nextFloat(rng) * (maxX - minX) + minX;
 
   if (lastSpawnX != null && Number.isFinite(lastSpawnX)) {
     // Limit how far a new spawn can jump horizontally from the previous one.
@@ -84,10 +158,14 @@ export function createFallingItem(type: ItemTypeConfig, canvasWidth: number, las
   return {
     x,
     y: -height,
+    prevX: x,
+    prevY: -height,
     width,
     height,
     vy: type.baseFallSpeed,
     type,
+    age: 0,
+    owner: null,
   };
 }
 
@@ -100,32 +178,106 @@ export function aabbIntersect(a: Rect, b: Rect): boolean {
   );
 }
 
-export function drawPlayer(ctx: CanvasRenderingContext2D, player: Player): void {
+// Copies the current position to prevX/prevY; call before moving an entity in a step.
+export function storePreviousPosition(entity: Rect & Interpolated): void {
+  entity.prevX = entity.x;
+  entity.prevY = entity.y;
+}
+
+// Where to draw an entity `alpha` (0..1) of the way from its previous to its current position.
+export function interpolatedRect(entity: Rect & Interpolated, alpha: number): Rect {
+  return {
+    x: entity.prevX + (entity.x - entity.prevX) * alpha,
+    y: entity.prevY + (entity.y - entity.prevY) * alpha,
+    width: entity.width,
+    height: entity.height,
+  };
+}
+
+// Draws the current animation frame if the character has a sprite sheet, else the
+// static sprite, else a colored rectangle.
+export function drawPlayer(ctx: CanvasRenderingContext2D, player: Player, anim: PlayerAnimation, alpha = 1): void {
   const { character } = player;
+  const dest = interpolatedRect(player, alpha);
+  const clip = character.sheet && resolvePlayerClip(character.sheet, anim.clip);
+  if (character.sheet && clip && drawSheetFrame(ctx, character.sheet.path, getClipFrame(clip, anim.time), dest)) {
+    return;
+  }
+
   const { img } = getCachedImage(character.spritePath);
   if (img) {
-    ctx.drawImage(img, player.x, player.y, player.width, player.height);
+    ctx.drawImage(img, dest.x, dest.y, dest.width, dest.height);
   } else {
     // Fallback rectangle if sprite is missing.
     ctx.fillStyle = player.color;
-    ctx.fillRect(player.x, player.y, player.width, player.height);
+    ctx.fillRect(dest.x, dest.y, dest.width, dest.height);
     ctx.strokeStyle = '#000000';
     ctx.lineWidth = 1;
-    ctx.strokeRect(player.x + 0.5, player.y + 0.5, player.width - 1, player.height - 1);
+    ctx.strokeRect(dest.x + 0.5, dest.y + 0.5, dest.width - 1, dest.height - 1);
   }
 }
 
-export function drawFallingItem(ctx: CanvasRenderingContext2D, item: FallingItem): void {
-  const { img } = getCachedImage(item.type.spritePath);
+// Returns false if the sheet isn't loaded (yet), so callers can fall back.
+function drawSheetFrame(ctx: CanvasRenderingContext2D, path: string, frame: FrameRect, dest: Rect): boolean {
+  const { img, status } = getCachedImage(path);
+  if (!img || status !== 'loaded') return false;
+  ctx.drawImage(img, frame.x, frame.y, frame.width, frame.height, dest.x, dest.y, dest.width, dest.height);
+  return true;
+}
+
+const POWER_UP_GLYPHS: Record<PowerUpEffect, string> = {
+  shield: 'S',
+  magnet: 'M',
+  slowMotion: 'T',
+  extraLife: '+',
+};
+
+export function drawFallingItem(ctx: CanvasRenderingContext2D, item: FallingItem, alpha = 1): void {
+  const { type } = item;
+  const { x, y } = interpolatedRect(item, alpha);
+  const cx = x + item.width / 2;
+  const cy = y + item.height / 2;
+
+  // Everything below is drawn around the item's center so motion can rotate it.
+  ctx.save();
+  ctx.translate(cx, cy);
+  if (type.motion === 'spin') {
+    ctx.rotate(item.age * 4);
+  } else if (type.motion === 'wobble') {
+    ctx.rotate(Math.sin(item.age * 8) * 0.25);
+  }
+  const local: Rect = { x: -item.width / 2, y: -item.height / 2, width: item.width, height: item.height };
+
+  const clip = type.sheet?.clips.fall;
+  if (type.sheet && clip && drawSheetFrame(ctx, type.sheet.path, getClipFrame(clip, item.age), local)) {
+    ctx.restore();
+    return;
+  }
+
+  const { img } = getCachedImage(type.spritePath);
   if (img) {
-    ctx.drawImage(img, item.x, item.y, item.width, item.height);
+    ctx.drawImage(img, local.x, local.y, local.width, local.height);
+  } else if (type.powerUp) {
+    // Power-ups without a sprite: colored disc with the effect's initial.
+    ctx.beginPath();
+    ctx.arc(0, 0, Math.min(item.width, item.height) / 2, 0, Math.PI * 2);
+    ctx.fillStyle = type.color ?? '#f6e05e';
+    ctx.fill();
+    ctx.strokeStyle = '#000000';
+    ctx.lineWidth = 1;
+    ctx.stroke();
+    ctx.fillStyle = '#ffffff';
+    ctx.font = '14px PPMori, system-ui, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(POWER_UP_GLYPHS[type.powerUp.effect], 0, 1);
   } else {
     // Fallback rectangle if sprite is missing.
-    ctx.fillStyle = '#f6e05e';
-    ctx.fillRect(item.x, item.y, item.width, item.height);
+    ctx.fillStyle = type.color ?? '#f6e05e';
+    ctx.fillRect(local.x, local.y, local.width, local.height);
     ctx.strokeStyle = '#000000';
     ctx.lineWidth = 1;
-    ctx.strokeRect(item.x + 0.5, item.y + 0.5, item.width - 1, item.height - 1);
+    ctx.strokeRect(local.x + 0.5, local.y + 0.5, local.width - 1, local.height - 1);
   }
+  ctx.restore();
 }
-
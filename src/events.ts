@@ -0,0 +1,185 @@
+// Typed game event bus. The adapter translates simulation events into these
+// richer, self-contained payloads so observers (analytics, overlays, plugins)
+// never have to dig through the game state themselves.
+
+import { getLevel, isRareItemFor } from './config.ts';
+import type { GameModeId, PowerUpEffect } from './config.ts';
+import type { FallingItem, GameScreen, GameState, PlayMode } from './entities';
+import type { SimulationEvent } from './simulation';
+
+// Shared by every event: where the round stands when it happened.
+export interface GameEventContext {
+  mode: PlayMode;
+  gameMode: GameModeId;
+  // Round total; per-player scores are on the player-specific events.
+  score: number;
+  elapsedTime: number;
+  level: number;
+  // True while a loaded replay is playing back rather than a live round.
+  replay: boolean;
+}
+
+export interface ItemEventContext extends GameEventContext {
+  itemType: string;
+  // Centre of the item in game units.
+  x: number;
+  y: number;
+}
+
+export interface GameEventMap {
+  // `characters` holds the character id per player.
+  roundStart: GameEventContext & { seed: number; characters: string[] };
+  // `streak` is the catching player's streak including this catch.
+  catch: ItemEventContext & { player: number; points: number; playerScore: number; streak: number; rare: boolean };
+  rareCatch: ItemEventContext & { player: number; points: number; playerScore: number; streak: number; rare: true };
+  miss: ItemEventContext & { player: number | null };
+  bombCaught: ItemEventContext & { player: number };
+  hazardDodged: ItemEventContext;
+  powerUp: ItemEventContext & { player: number; effect: PowerUpEffect };
+  shieldBlocked: ItemEventContext & { player: number };
+  // `player` is set in versus, where each player has their own lives; null for the shared pool.
+  lifeLost: GameEventContext & { player: number | null; livesLeft: number };
+  levelChange: GameEventContext & { previousLevel: number };
+  screenChange: GameEventContext & { from: GameScreen; to: GameScreen };
+  // `winner` is set in versus rounds.
+  gameOver: GameEventContext & { winner: number | null };
+}
+
+export type GameEventType = keyof GameEventMap;
+export type GameEventHandler<K extends GameEventType> = (event: GameEventMap[K]) => void;
+
+export interface GameEventBus {
+  // Returns a function that removes the handler again.
+  on: <K extends GameEventType>(type: K, handler: GameEventHandler<K>, owner?: string) => () => void;
+  off: <K extends GameEventType>(type: K, handler: GameEventHandler<K>) => void;
+  emit: <K extends GameEventType>(type: K, event: GameEventMap[K]) => void;
+}
+
+interface Subscription {
+  handler: (event: never) => void;
+  // Named in error messages, e.g. the plugin that registered the handler.
+  owner: string;
+}
+
+export function createEventBus(): GameEventBus {
+  const handlers = new Map<GameEventType, Subscription[]>();
+
+  const off: GameEventBus['off'] = (type, handler) => {
+    const list = handlers.get(type);
+    if (!list) return;
+    handlers.set(type, list.filter((sub) => sub.handler !== handler));
+  };
+
+  return {
+    on(type, handler, owner = 'anonymous') {
+      handlers.set(type, [...(handlers.get(type) ?? []), { handler, owner }]);
+      return () => off(type, handler);
+    },
+    off,
+    emit(type, event) {
+      // Snapshot, so handlers may unsubscribe while the event is being delivered.
+      for (const sub of handlers.get(type) ?? []) {
+        try {
+          (sub.handler as GameEventHandler<typeof type>)(event);
+        } catch (err) {
+          // One broken subscriber must not take down the game loop or the others.
+          console.error(`[events] "${type}" handler of ${sub.owner} failed:`, err);
+        }
+      }
+    },
+  };
+}
+
+// The bus the game publishes on; plugins subscribe to it (see plugins.ts).
+export const gameEvents = createEventBus();
+
+function baseContext(state: GameState, replay: boolean): GameEventContext {
+  return {
+    mode: state.mode,
+    gameMode: state.gameMode,
+    score: state.score,
+    elapsedTime: state.elapsedTime,
+    level: getLevel(state.elapsedTime),
+    replay,
+  };
+}
+
+function itemContext(state: GameState, item: FallingItem, replay: boolean): ItemEventContext {
+  return {
+    ...baseContext(state, replay),
+    itemType: item.type.id,
+    x: item.x + item.width / 2,
+    y: item.y + item.height / 2,
+  };
+}
+
+// Publishes one step's simulation events. Screen changes are not simulation
+// events; the adapter reports those with publishScreenChange.
+export function publishSimulationEvents(
+  bus: GameEventBus,
+  events: SimulationEvent[],
+  state: GameState,
+  replay = false,
+): void {
+  for (const event of events) {
+    switch (event.type) {
+      case 'roundStart':
+        bus.emit('roundStart', {
+          ...baseContext(state, replay),
+          seed: event.seed,
+          characters: state.players.map((player) => player.character.id),
+        });
+        break;
+      case 'catch': {
+        const player = state.players[event.player];
+        const rare = isRareItemFor(player.character, event.item.type.id);
+        // Later events of the same step may have changed the state; use the catch's own values.
+        const payload = {
+          ...itemContext(state, event.item, replay),
+          score: event.score,
+          player: event.player,
+          points: event.points,
+          playerScore: event.playerScore,
+          streak: event.streak,
+          rare,
+        };
+        bus.emit('catch', payload);
+        if (rare) bus.emit('rareCatch', { ...payload, rare });
+        break;
+      }
+      case 'miss':
+        bus.emit('miss', { ...itemContext(state, event.item, replay), player: event.player });
+        break;
+      case 'bombCaught':
+        bus.emit('bombCaught', { ...itemContext(state, event.item, replay), player: event.player });
+        break;
+      case 'hazardDodged':
+        bus.emit('hazardDodged', itemContext(state, event.item, replay));
+        break;
+      case 'powerUp':
+        bus.emit('powerUp', { ...itemContext(state, event.item, replay), player: event.player, effect: event.effect });
+        break;
+      case 'shieldBlocked':
+        bus.emit('shieldBlocked', { ...itemContext(state, event.item, replay), player: event.player });
+        break;
+      case 'lifeLost':
+        bus.emit('lifeLost', { ...baseContext(state, replay), player: event.player, livesLeft: event.lives });
+        break;
+      case 'levelUp':
+        bus.emit('levelChange', { ...baseContext(state, replay), level: event.level, previousLevel: event.level - 1 });
+        break;
+      case 'gameOver':
+        bus.emit('gameOver', { ...baseContext(state, replay), score: event.score, winner: event.winner });
+        break;
+    }
+  }
+}
+
+export function publishScreenChange(
+  bus: GameEventBus,
+  state: GameState,
+  from: GameScreen,
+  replay = false,
+): void {
+  bus.emit('screenChange', { ...baseContext(state, replay), from, to: state.screen });
+}
@@ -1,21 +1,148 @@
-import { GAME_CONFIG, ITEM_TYPES, CHARACTERS, getDifficulty, MAX_SPAWNS_PER_FRAME, RARE_ITEM_CHANCE } from './config.ts';
+// Browser adapter: owns the canvas, the requestAnimationFrame loop and input
+// listeners, and drives the headless rules in simulation.ts.
+
+import { GAME_CONFIG, CONFIG_VERSION, GAME_MODES, GAME_MODE_IDS, getLevel } from './config.ts';
+import type { GameModeId } from './config.ts';
+import type { AccessibilitySettings } from './accessibility';
+import {
+  applyDocumentSettings,
+  loadAccessibilitySettings,
+  resolveReducedMotion,
+  saveAccessibilitySettings,
+  watchSystemReducedMotion,
+} from './accessibility';
+import type { AchievementTracker } from './achievements';
+import { attachAchievementTracker, loadAchievements } from './achievements';
+import type { PlayerAnimation } from './animation';
+import { createPlayerAnimation, triggerPlayerClips, updatePlayerAnimations } from './animation';
+import type { PreloadProgress } from './assets';
+import { buildAssetManifest, preloadAssets } from './assets';
+import type { MusicId, SoundManager } from './audio';
+import { attachEventSounds, createSoundManager, loadAudioSettings, saveAudioSettings } from './audio';
+import type { ContentPack } from './content';
+import {
+  getActiveContent,
+  setActiveContent,
+  loadContentPackFromUrl,
+  parseContentPack,
+  DEFAULT_CONTENT_PACK,
+} from './content';
+import { gameEvents, publishScreenChange, publishSimulationEvents } from './events';
+import type { DebugOverlay } from './debug';
+import type { Effects } from './effects';
+import { createEffects, clearEffects, emitForEvents, updateEffects } from './effects';
 import type { GameState, GameScreen } from './entities';
-import { createPlayer, createFallingItem, aabbIntersect } from './entities';
-import type { InputState } from './input';
-import { createInputState, attachInputListeners } from './input';
+import { applyLocale, loadLocale } from './i18n';
+import type { InputState, TouchScheme } from './input';
+import type { GamepadInput } from './input';
+import {
+  createInputState,
+  attachInputListeners,
+  attachPointerListeners,
+  attachGamepadListeners,
+  loadTouchScheme,
+  saveTouchScheme,
+} from './input';
 import { render } from './renderer';
+import type { KeyBindings } from './bindings';
+import { loadBindings, saveBindings } from './bindings';
+import type { DailyAttempt, Leaderboard } from './leaderboard';
+import {
+  loadLeaderboard,
+  saveLeaderboard,
+  qualifiesForLeaderboard,
+  addLeaderboardEntry,
+  sanitizeName,
+  loadDailyAttempt,
+  saveDailyAttempt,
+} from './leaderboard';
+import type { ReplayFile, ReplayPlayback } from './replay';
+import {
+  createReplay,
+  recordFrame,
+  serializeReplay,
+  parseReplay,
+  createPlayback,
+  advancePlayback,
+  seekPlayback,
+  isPlaybackFinished,
+  getPlaybackAlpha,
+} from './replay';
+import { dailySeed, getDailyKey, parseSeed } from './rng';
+import type { SimulationEvent } from './simulation';
+import {
+  createInitialState,
+  stepSimulation,
+  beginPlay,
+  setScreen,
+  setPlayMode,
+  setGameMode,
+  selectCharacter,
+} from './simulation';
+import type { HighScoreStatus, UiController } from './ui';
+import { initUI } from './ui';
+import type { Viewport } from './viewport';
+import { createViewport } from './viewport';
 
 interface GameRuntime {
   canvas: HTMLCanvasElement;
   ctx: CanvasRenderingContext2D;
+  viewport: Viewport;
   state: GameState;
   input: InputState;
+  gamepads: GamepadInput;
   detachInput: () => void;
   lastTime: number;
+  // Real time not yet simulated; always less than one SIM_STEP after a frame.
+  stepAccumulator: number;
   running: boolean;
-  spawnRateDebug: number;
+  // Developer overlay; only ever set in dev builds.
+  debug: DebugOverlay | null;
+  // Seed requested via the `?seed=` URL parameter; null → fresh seed per round.
+  fixedSeed: number | null;
+  // Recording of the current (or most recently finished) round.
+  recording: ReplayFile | null;
+  // Set while a loaded replay is being played back instead of live input.
+  playback: ReplayPlayback | null;
+  touchScheme: TouchScheme;
+  bindings: KeyBindings;
+  accessibility: AccessibilitySettings;
+  leaderboards: Record<GameModeId, Leaderboard>;
+  highScore: HighScoreStatus;
+  dailyAttempt: DailyAttempt | null;
+  // Whether the current round counts for the leaderboard (and the daily attempt).
+  roundScored: boolean;
+  achievements: AchievementTracker;
+  // Screen last reported on the event bus (live or replay, whichever is shown).
+  publishedScreen: GameScreen;
+  ui: UiController | null;
+  sound: SoundManager;
+  effects: Effects;
+  // One per player slot, indexed like GameState.players.
+  playerAnims: PlayerAnimation[];
+  assets: PreloadProgress;
+  // Bumped per preload so a slower, older preload can't end a newer loading screen.
+  preloadId: number;
 }
 
+// The simulation always advances in steps of this length, so rounds play the same
+// on every frame rate.
+const SIM_STEP = 1 / GAME_CONFIG.targetFPS;
+// Longest frame the loop catches up on (e.g. after a stall); the rest is dropped.
+const MAX_FRAME_TIME = 0.25;
+
+// Seconds to wait for critical assets before starting anyway.
+const PRELOAD_TIMEOUT = 8;
+
+const SCREEN_MUSIC: Record<GameScreen, MusicId | null> = {
+  loading: null,
+  start: 'menu',
+  characterSelect: 'menu',
+  playing: 'game',
+  paused: 'game',
+  gameOver: null,
+};
+
 export function startGame(canvas: HTMLCanvasElement, uiRoot: HTMLElement): void {
   const ctx = canvas.getContext('2d');
   if (!ctx) {
@@ -23,39 +150,267 @@ export function startGame(canvas: HTMLCanvasElement, uiRoot: HTMLElement): void
     return;
   }
 
-  canvas.width = GAME_CONFIG.width;
-  canvas.height = GAME_CONFIG.height;
+  const viewport = createViewport(canvas, canvas.parentElement ?? uiRoot);
 
   const input = createInputState();
-  const detachInput = attachInputListeners(input);
+  const touchScheme = loadTouchScheme();
+  const bindings = loadBindings();
+  // Before the UI is built: its markup is translated as it is created.
+  applyLocale(loadLocale());
+  const accessibility = loadAccessibilitySettings();
+  applyDocumentSettings(accessibility);
+  // 'Follow system' re-reads the OS preference whenever it changes.
+  const detachReducedMotion = watchSystemReducedMotion(() => applyAccessibility(runtime));
+  const audioSettings = loadAudioSettings();
+  const sound = createSoundManager(audioSettings);
+  const detachEventSounds = attachEventSounds(sound);
+  const detachKeyboard = attachInputListeners(input, () => runtime.bindings);
+  const detachPointer = attachPointerListeners(
+    input,
+    canvas,
+    (clientX) => viewport.toGame(clientX, 0).x,
+    () => runtime.touchScheme,
+  );
+  const gamepads = attachGamepadListeners(input);
+  // Auto-pause when the tab is hidden or the window loses focus.
+  const autoPause = () => {
+    if (runtime.state.screen === 'playing' && !runtime.playback) {
+      requestPauseToggle(runtime);
+    }
+  };
+  const onVisibilityChange = () => {
+    if (document.hidden) autoPause();
+  };
+  document.addEventListener('visibilitychange', onVisibilityChange);
+  window.addEventListener('blur', autoPause);
+
+  const detachInput = () => {
+    detachKeyboard();
+    detachPointer();
+    gamepads.detach();
+    detachEventSounds();
+    sound.detach();
+    runtime.achievements.detach();
+    viewport.detach();
+    detachReducedMotion();
+    runtime.debug?.detach();
+    document.removeEventListener('visibilitychange', onVisibilityChange);
+    window.removeEventListener('blur', autoPause);
+  };
 
   const runtime: GameRuntime = {
     canvas,
     ctx,
+    viewport,
     input,
+    gamepads,
     detachInput,
     state: createInitialState(),
     lastTime: performance.now(),
+    stepAccumulator: 0,
     running: true,
-    spawnRateDebug: 0,
+    debug: null,
+    fixedSeed: parseSeed(new URLSearchParams(window.location.search).get('seed')),
+    recording: null,
+    playback: null,
+    touchScheme,
+    bindings,
+    accessibility,
+    leaderboards: loadLeaderboards(),
+    highScore: { kind: 'none' },
+    dailyAttempt: loadDailyAttempt(),
+    roundScored: false,
+    // Unlocks show mid-round, as soon as the tracker sees them on the event bus.
+    achievements: attachAchievementTracker(
+      loadAchievements(),
+      (achievement) => {
+        runtime.ui?.announceAchievement(achievement);
+        sound.play('levelUp');
+      },
+      // Invincibility stays switched on across rounds.
+      () => runtime.debug?.invincible() ?? false,
+    ),
+    ui: null,
+    publishedScreen: 'start',
+    sound,
+    effects: createEffects(resolveReducedMotion(accessibility.reducedMotion)),
+    playerAnims: [createPlayerAnimation(), createPlayerAnimation()],
+    assets: { total: 0, done: 0, failed: [], ready: false, timedOut: false },
+    preloadId: 0,
   };
 
   const uiController = initUI(uiRoot, {
-    onStart: () => setScreen(runtime, 'characterSelect'),
-    onSelectCharacter: (index) => selectCharacter(runtime.state, index),
-    onStartGame: () => beginPlay(runtime.state),
-    onRestart: () => beginPlay(runtime.state),
-    onBackToCharacterSelect: () => setScreen(runtime, 'characterSelect'),
+    onStart: () => setScreen(runtime.state, 'characterSelect'),
+    onSelectCharacter: (index, player) => selectCharacter(runtime.state, index, player),
+    onSelectMode: (mode) => setPlayMode(runtime.state, mode),
+    onSelectGameMode: (gameMode) => setGameMode(runtime.state, gameMode),
+    onStartGame: () => startRound(runtime),
+    onRestart: () => startRound(runtime),
+    onBackToCharacterSelect: () => {
+      // From the pause menu this also finishes zen rounds, exactly like the back key.
+      if (runtime.state.screen === 'paused') requestBack(runtime);
+      else setScreen(runtime.state, 'characterSelect');
+    },
+    onResume: () => requestPauseToggle(runtime),
+    onLoadReplay: (text) => loadReplay(runtime, text),
+    onDownloadReplay: () => downloadReplay(runtime),
+    onReplayTogglePause: () => {
+      if (!runtime.playback) return;
+      if (isPlaybackFinished(runtime.playback)) {
+        seekPlayback(runtime.playback, 0);
+        runtime.playback.paused = false;
+      } else {
+        runtime.playback.paused = !runtime.playback.paused;
+      }
+    },
+    onReplaySeek: (frameIndex) => {
+      if (!runtime.playback) return;
+      seekPlayback(runtime.playback, frameIndex);
+      clearEffects(runtime.effects);
+    },
+    onReplaySpeed: (speed) => {
+      if (runtime.playback) runtime.playback.speed = speed;
+    },
+    onExitReplay: () => {
+      runtime.playback = null;
+      clearEffects(runtime.effects);
+    },
+    onTouchSchemeChange: (scheme) => {
+      runtime.touchScheme = scheme;
+      saveTouchScheme(scheme);
+    },
+    onTouchButton: (key, pressed) => {
+      runtime.input[key] = pressed;
+    },
+    onBindingsChange: (next) => {
+      runtime.bindings = next;
+      saveBindings(next);
+    },
+    onAudioChange: (next) => {
+      sound.setVolume('master', next.master);
+      sound.setVolume('music', next.music);
+      sound.setVolume('sfx', next.sfx);
+      sound.setMuted(next.muted);
+      saveAudioSettings(next);
+    },
+    onAccessibilityChange: (next) => {
+      runtime.accessibility = next;
+      applyAccessibility(runtime);
+      saveAccessibilitySettings(next);
+    },
+    onSubmitHighScore: (name) => submitHighScore(runtime, name),
+    onLoadContentPack: (text) => {
+      try {
+        activateContentPack(runtime, uiController, parseContentPack(text, window.location.href));
+        return null;
+      } catch (err) {
+        return err instanceof Error ? err.message : String(err);
+      }
+    },
+    onResetContentPack: () => activateContentPack(runtime, uiController, DEFAULT_CONTENT_PACK),
+  }, {
+    touchScheme,
+    bindings,
+    audio: audioSettings,
+    accessibility,
+    getLeaderboard: (gameMode) => runtime.leaderboards[gameMode],
+    getAchievements: () => runtime.achievements.getSaved(),
   });
+  runtime.ui = uiController;
+
+  // Dev builds only: the import (and the whole module) is dropped from production bundles.
+  if (import.meta.env.DEV) {
+    import('./debug')
+      .then(({ createDebugOverlay }) => {
+        runtime.debug = createDebugOverlay(document.body, {
+          getState: () => runtime.state,
+          handleEvents: (events) => handleEvents(runtime, events),
+          onCheat: () => discardCheatedRound(runtime),
+        });
+      })
+      .catch((err: unknown) => console.warn('[debug] Could not load the debug overlay:', err));
+  }
+
+  preloadContent(runtime, getActiveContent());
+
+  // Optional content pack from the URL, e.g. `?pack=/packs/holiday.json`.
+  const packUrl = new URLSearchParams(window.location.search).get('pack');
+  if (packUrl) {
+    loadContentPackFromUrl(packUrl)
+      .then((pack) => activateContentPack(runtime, uiController, pack))
+      .catch((err: unknown) => {
+        console.error('[content]', err);
+        uiController.showContentError(err instanceof Error ? err.message : String(err));
+      });
+  }
 
   const loop = (time: number) => {
     if (!runtime.running) return;
-    const dt = Math.min((time - runtime.lastTime) / 1000, 0.1);
+    const frameTime = (time - runtime.lastTime) / 1000;
+    const dt = Math.min(frameTime, MAX_FRAME_TIME);
     runtime.lastTime = time;
-
-    update(runtime, dt);
-    uiController.update(runtime.state);
-    render(runtime.ctx, runtime.state);
+    runtime.gamepads.poll();
+
+    if (runtime.playback) {
+      const events = advancePlayback(runtime.playback, dt);
+      const { state } = runtime.playback;
+      publishSimulationEvents(gameEvents, events, state, true);
+      emitForEvents(runtime.effects, events, state);
+      triggerPlayerClips(runtime.playerAnims, events);
+      if (!runtime.playback.paused) {
+        updateEffects(runtime.effects, dt * runtime.playback.speed);
+        updatePlayerAnimations(runtime.playerAnims, state, dt * runtime.playback.speed);
+      }
+      uiController.update(state, {
+        playback: runtime.playback,
+        highScore: { kind: 'none' },
+        assets: runtime.assets,
+        dailyAttempt: runtime.dailyAttempt,
+        roundScored: false,
+      });
+      runtime.viewport.applyTransform(runtime.ctx);
+      render(
+        runtime.ctx,
+        state,
+        runtime.effects,
+        runtime.playerAnims,
+        getPlaybackAlpha(runtime.playback),
+        runtime.accessibility,
+      );
+      runtime.sound.playMusic(SCREEN_MUSIC[state.screen]);
+      publishScreen(runtime, state, true);
+      runtime.debug?.frame(runtime.ctx, frameTime, state);
+    } else {
+      runtime.stepAccumulator += dt * (runtime.debug?.timeScale() ?? 1);
+      while (runtime.stepAccumulator >= SIM_STEP) {
+        update(runtime, SIM_STEP);
+        runtime.stepAccumulator -= SIM_STEP;
+      }
+      // Effects and animations freeze with the game while paused.
+      if (runtime.state.screen !== 'paused') {
+        updateEffects(runtime.effects, dt);
+        updatePlayerAnimations(runtime.playerAnims, runtime.state, dt);
+      }
+      uiController.update(runtime.state, {
+        playback: null,
+        highScore: runtime.highScore,
+        assets: runtime.assets,
+        dailyAttempt: runtime.dailyAttempt,
+        roundScored: runtime.roundScored,
+      });
+      runtime.viewport.applyTransform(runtime.ctx);
+      render(
+        runtime.ctx,
+        runtime.state,
+        runtime.effects,
+        runtime.playerAnims,
+        runtime.stepAccumulator / SIM_STEP,
+        runtime.accessibility,
+      );
+      runtime.sound.playMusic(SCREEN_MUSIC[runtime.state.screen]);
+      publishScreen(runtime, runtime.state, false);
+      runtime.debug?.frame(runtime.ctx, frameTime, runtime.state);
+    }
 
     requestAnimationFrame(loop);
   };
@@ -63,383 +418,192 @@ export function startGame(canvas: HTMLCanvasElement, uiRoot: HTMLElement): void
   requestAnimationFrame(loop);
 }
 
-function createInitialState(): GameState {
-  return {
-    screen: 'start',
-    player: null,
-    selectedCharacterIndex: 0,
-    score: 0,
-    lives: GAME_CONFIG.initialLives,
-    elapsedTime: 0,
-    spawnAccumulator: 0,
-    items: [],
-    missEffects: [],
-    lastBombTime: -Infinity,
-    lastSpawnX: GAME_CONFIG.width / 2,
-  };
-}
-
 function update(runtime: GameRuntime, dt: number): void {
-  const { state, input } = runtime;
-
-  switch (state.screen) {
-    case 'start':
-      // Start screen is driven entirely by HTML; nothing to update here yet.
-      break;
-    case 'characterSelect':
-      updateCharacterSelect(state, input, dt);
-      break;
-    case 'playing':
-      updatePlaying(runtime, dt);
-      break;
-    case 'gameOver':
-      updateGameOver(state, input);
-      break;
-  }
-}
+  const { input } = runtime;
+  const snapshot = { ...input };
+  const inRound = runtime.state.screen === 'playing' || runtime.state.screen === 'paused';
 
-function updateCharacterSelect(state: GameState, input: InputState, _dt: number): void {
-  if (input.left) {
-    state.selectedCharacterIndex = (state.selectedCharacterIndex - 1 + CHARACTERS.length) % CHARACTERS.length;
-    input.left = false; // prevent very fast cycling
-  }
-  if (input.right) {
-    state.selectedCharacterIndex = (state.selectedCharacterIndex + 1) % CHARACTERS.length;
-    input.right = false;
+  const result = stepSimulation(runtime.state, snapshot, dt, {
+    roundSeed: roundSeedFor(runtime),
+    invincible: runtime.debug?.invincible() ?? false,
+  });
+  runtime.state = result.state;
+  for (const key of result.consumed) {
+    input[key] = false;
   }
-
-  if (input.confirm) {
-    beginPlay(state);
-    input.confirm = false;
+  // A restart from the pause menu belongs to the next round, not this recording:
+  // playback has no round seed and would start a random round from it.
+  const restarted = result.events.some((event) => event.type === 'roundStart');
+  if (inRound && runtime.recording && !restarted) {
+    recordFrame(runtime.recording, dt, snapshot);
   }
+  handleEvents(runtime, result.events);
 }
 
-function beginPlay(state: GameState): void {
-  const character = CHARACTERS[state.selectedCharacterIndex];
-  state.player = createPlayer(character, GAME_CONFIG.width, GAME_CONFIG.height);
-  state.screen = 'playing';
-  state.score = 0;
-  state.lives = GAME_CONFIG.initialLives;
-  state.elapsedTime = 0;
-  state.spawnAccumulator = 0;
-  state.items = [];
-  // Clear any leftover visual effects from the previous round.
-  state.missEffects = [];
-  state.lastBombTime = -Infinity;
-  state.lastSpawnX = GAME_CONFIG.width / 2;
+// Pausing goes through the input snapshot rather than mutating the state directly,
+// so pauses (and the resume countdown) end up in the replay like any key press.
+function requestPauseToggle(runtime: GameRuntime): void {
+  runtime.input.pause = true;
 }
 
-function updatePlaying(runtime: GameRuntime, dt: number): void {
-  const { state, input } = runtime;
-  const player = state.player;
-  if (!player) return;
-
-  let dir = 0;
-  if (input.left) dir -= 1;
-  if (input.right) dir += 1;
-  player.x += dir * player.speed * dt;
-  player.x = Math.max(0, Math.min(GAME_CONFIG.width - player.width, player.x));
-
-  state.elapsedTime += dt;
-  const diff = getDifficulty(state.elapsedTime);
-  runtime.spawnRateDebug = diff.spawnRate;
-
-  const spawnRate = diff.spawnRate;
-  const spawnInterval = spawnRate > 0 ? 1 / spawnRate : Infinity;
-  state.spawnAccumulator += dt;
-  let spawnsThisFrame = 0;
-  while (state.spawnAccumulator >= spawnInterval && spawnsThisFrame < MAX_SPAWNS_PER_FRAME) {
-    state.spawnAccumulator -= spawnInterval;
-    const type = pickItemType(state);
-    const item = createFallingItem(type, GAME_CONFIG.width, state.lastSpawnX);
-    item.vy *= diff.speedMultiplier;
-    state.items.push(item);
-    spawnsThisFrame += 1;
-    state.lastSpawnX = item.x;
-  }
-
-  const groundY = GAME_CONFIG.height - 10;
-  const remaining: typeof state.items = [];
-
-  for (const item of state.items) {
-    item.y += item.vy * dt;
-
-    // Collision with player.
-    if (aabbIntersect(player, item)) {
-      if (item.type.isHazard) {
-        // Catching a bomb ends the game immediately.
-        state.lives = 0;
-        state.screen = 'gameOver';
-        break;
-      } else {
-        state.score += item.type.scoreValue;
-        // TODO: optional pickup sound here later.
-        continue;
-      }
-    }
-
-    // Item reached the ground.
-    if (item.y + item.height >= groundY) {
-      if (!item.type.isHazard) {
-        // Only normal items cost a life when missed.
-        state.lives -= 1;
-        state.missEffects.push({
-          x: item.x + item.width / 2,
-          y: groundY - 5,
-          radius: Math.max(item.width, item.height) * 0.6,
-          timer: 0.3,
-          maxTimer: 0.3,
-        });
-        if (state.lives <= 0) {
-          state.screen = 'gameOver';
-          break;
-        }
-      }
-      continue;
-    }
+function requestBack(runtime: GameRuntime): void {
+  runtime.input.back = true;
+}
 
-    remaining.push(item);
-  }
+function startRound(runtime: GameRuntime): void {
+  handleEvents(runtime, [beginPlay(runtime.state, roundSeedFor(runtime))]);
+}
 
-  state.items = remaining;
-  // Update and expire miss effects.
-  state.missEffects = state.missEffects
-    .map((fx) => ({ ...fx, timer: fx.timer - dt }))
-    .filter((fx) => fx.timer > 0);
+// The daily challenge always plays today's seed; otherwise `?seed=` or a fresh one.
+function roundSeedFor(runtime: GameRuntime): number | null {
+  return GAME_MODES[runtime.state.gameMode].daily ? dailySeed(getDailyKey()) : runtime.fixedSeed;
 }
 
-function pickItemType(state: GameState) {
-  const idx = state.selectedCharacterIndex;
-  // Base/rare items per character:
-  // Player A → base: itemA, rare: itemE
-  // Player B → base: itemB, rare: itemF
-  // Player C → base: itemC, rare: itemD
-  // Player D → base: itemG, rare: itemH
-  let baseId = 'itemA';
-  let rareId: string | null = 'itemE';
-  if (idx === 1) {
-    baseId = 'itemB';
-    rareId = 'itemF';
-  } else if (idx === 2) {
-    baseId = 'itemC';
-    rareId = 'itemD';
-  } else if (idx === 3) {
-    baseId = 'itemG';
-    rareId = 'itemH';
+function loadLeaderboards(): Record<GameModeId, Leaderboard> {
+  const boards = {} as Record<GameModeId, Leaderboard>;
+  for (const mode of GAME_MODE_IDS) {
+    boards[mode] = loadLeaderboard(mode);
   }
+  return boards;
+}
 
-  const base = ITEM_TYPES.find((t) => t.id === baseId) ?? ITEM_TYPES[0];
-  const rare = rareId ? ITEM_TYPES.find((t) => t.id === rareId) ?? null : null;
-
-  // Decide bomb first, with time-based chance and cooldown.
-  const bomb = ITEM_TYPES.find((t) => t.id === 'bomb' && t.isHazard);
-  let bombChance = 0;
-  const t = state.elapsedTime;
-  const bombCooldown = 1.2; // seconds
-
-  if (bomb && t >= 5) {
-    // Smooth ramp from ~3% at 5s up to 9% over 45 seconds.
-    const ramp = Math.min(1, (t - 5) / 45);
-    bombChance = 0.03 + ramp * (0.09 - 0.03);
-    bombChance = Math.min(0.09, Math.max(0, bombChance));
-
-    // Enforce cooldown between bomb spawns.
-    if (t - state.lastBombTime < bombCooldown) {
-      bombChance = 0;
+// Only single-player rounds are scored, and of the daily challenge only the first
+// attempt per day. Starting it uses the attempt up, even if the round is abandoned.
+function beginScoring(runtime: GameRuntime): void {
+  const { state } = runtime;
+  runtime.roundScored = state.mode === 'single';
+  if (runtime.roundScored && GAME_MODES[state.gameMode].daily) {
+    const today = getDailyKey();
+    runtime.roundScored = runtime.dailyAttempt?.date !== today;
+    if (runtime.roundScored) {
+      runtime.dailyAttempt = { date: today, score: null };
+      saveDailyAttempt(runtime.dailyAttempt);
     }
   }
-
-  if (bombChance > 0 && Math.random() < bombChance) {
-    state.lastBombTime = t;
-    return bomb!;
-  }
-
-  // Independent rare item roll.
-  if (rare && Math.random() < RARE_ITEM_CHANCE) {
-    return rare;
-  }
-
-  return base;
 }
 
-function updateGameOver(state: GameState, input: InputState): void {
-  if (input.restart) {
-    beginPlay(state);
-    input.restart = false;
-  } else if (input.back) {
-    const idx = state.selectedCharacterIndex;
-    Object.assign(state, createInitialState());
-    state.selectedCharacterIndex = idx;
-    input.back = false;
-  }
+// A replay can't reproduce cheats, and cheated rounds count for neither scores
+// nor achievements.
+function discardCheatedRound(runtime: GameRuntime): void {
+  runtime.roundScored = false;
+  runtime.recording = null;
+  runtime.achievements.discardRound();
 }
 
-type UiActions = {
-  onStart: () => void;
-  onSelectCharacter: (index: number) => void;
-  onStartGame: () => void;
-  onRestart: () => void;
-  onBackToCharacterSelect: () => void;
-};
-
-interface UiController {
-  update: (state: GameState) => void;
+// Screens change from simulation steps as well as UI actions, so the bus is told
+// once per frame, comparing against what it saw last.
+function publishScreen(runtime: GameRuntime, state: GameState, replay: boolean): void {
+  if (state.screen === runtime.publishedScreen) return;
+  const from = runtime.publishedScreen;
+  runtime.publishedScreen = state.screen;
+  publishScreenChange(gameEvents, state, from, replay);
 }
 
-function initUI(root: HTMLElement, actions: UiActions): UiController {
-  const container = root.closest('#game-container') ?? root;
-
-  const uiLayer = document.createElement('div');
-  uiLayer.id = 'ui-layer';
-  container.appendChild(uiLayer);
-
-  uiLayer.innerHTML = `
-    <div class="screen start-screen">
-      <div class="panel">
-      <div class="panel-content">
-        <img src="/assets/Logo/logo.svg" alt="studio tülü logo" class="logo" />
-        <div class="button-wrapper"">
-        <button type="button" class="btn circle" data-action="start" aria-label="Choose your fighter">
-          <svg xmlns="http://www.w3.org/2000/svg" width="14" height="12" viewBox="0 0 14 12" fill="none">
-            <path d="M13.904 6.736L8.912 11.744L7.568 10.624L11.456 6.736H0V4.992H11.472L7.584 1.12L8.912 0L13.904 4.992V6.736Z" fill="white"/>
-          </svg>
-        </button>
-        <button type="button" class="button-text" data-action="start" aria-label="Choose your character">Choose your character</button>
-        </div>
-        </div>
-        <a href="https://www.studiotulu.com" target="_blank" class="link">www.studiotulu.com</a>
-      </div>
-    </div>
-    <div class="screen character-select-screen">
-      <div class="panel">
-      <img src="/assets/Logo/logo.svg" alt="studio tülü logo" class="logo" />
-      <div class="panel-content">
-        <h2 class="title">Choose your character</h2>
-        <div class="character-grid"></div>
-        <div class="button-wrapper"">
-        <button type="button" class="btn circle" data-action="start-game" aria-label="Start game">
-          <svg xmlns="http://www.w3.org/2000/svg" width="14" height="12" viewBox="0 0 14 12" fill="none">
-            <path d="M13.904 6.736L8.912 11.744L7.568 10.624L11.456 6.736H0V4.992H11.472L7.584 1.12L8.912 0L13.904 4.992V6.736Z" fill="white"/>
-          </svg>
-        </button>
-        <button type="button" class="button-text" data-action="start-game" aria-label="Start game">Start game</button>
-        </div>
-        </div>
-        <p class="instructions">Press ←/→ or A/D to move・Enter/Click to start</p>
-        <a href="https://www.studiotulu.com" target="_blank" class="link">www.studiotulu.com</a>
-      </div>
-    </div>
-    <div class="screen gameover-screen">
-      <div class="panel">
-      <img src="/assets/Logo/logo.svg" alt="studio tülü logo" class="logo" />
-      <div class="panel-content">
-        <h2 class="title red">Game Over</h2>
-        <p class="final-score">Score: <span data-score>0</span></p>
-        </div>
-        <div class="button-row">
-            <div class="button-wrapper">
-            <button type="button" class="btn circle" data-action="restart" aria-label="Restart">
-              <svg xmlns="http://www.w3.org/2000/svg" width="14" height="12" viewBox="0 0 14 12" fill="none">
-                <path d="M13.904 6.736L8.912 11.744L7.568 10.624L11.456 6.736H0V4.992H11.472L7.584 1.12L8.912 0L13.904 4.992V6.736Z" fill="white"/>
-              </svg>
-            </button>
-            <button type="button" class="button-text" data-action="restart" aria-label="Restart">Restart</button>
-            </div>
-            <div class="button-wrapper">
-            <button type="button" class="btn circle" data-action="back" aria-label="Character Select">
-              <svg xmlns="http://www.w3.org/2000/svg" width="14" height="12" viewBox="0 0 14 12" fill="none">
-                <path d="M13.904 6.736L8.912 11.744L7.568 10.624L11.456 6.736H0V4.992H11.472L7.584 1.12L8.912 0L13.904 4.992V6.736Z" fill="white"/>
-              </svg>
-            </button>
-            <button type="button" class="button-text" data-action="back" aria-label="Character Select">Character Select</button>
-            </div>
-            <a href="https://www.studiotulu.com" target="_blank" class="link">www.studiotulu.com</a>
-        </div>
-      </div>
-    </div>
-  `;
-
-  const startScreen = uiLayer.querySelector<HTMLDivElement>('.start-screen')!;
-  const charScreen = uiLayer.querySelector<HTMLDivElement>('.character-select-screen')!;
-  const gameOverScreen = uiLayer.querySelector<HTMLDivElement>('.gameover-screen')!;
-  const scoreSpan = uiLayer.querySelector<HTMLSpanElement>('[data-score]')!;
-  const characterGrid = uiLayer.querySelector<HTMLDivElement>('.character-grid')!;
-
-  // Build character cards.
-  CHARACTERS.forEach((char, index) => {
-    const card = document.createElement('button');
-    card.type = 'button';
-    card.className = 'character-card';
-    card.dataset.index = String(index);
-    const img = document.createElement('img');
-    img.src = char.spritePath ?? '';
-    img.alt = char.name;
-    img.className = 'character-avatar';
-    const label = document.createElement('span');
-    label.className = 'character-name';
-    label.textContent = char.name;
-    card.appendChild(img);
-    card.appendChild(label);
-    characterGrid.appendChild(card);
-  });
-
-  // Button actions.
-  uiLayer.addEventListener('click', (event) => {
-    const target = event.target as HTMLElement | null;
-    if (!target) return;
-
-    if (target.matches('[data-action="start"]')) {
-      actions.onStart();
-      return;
-    }
-    if (target.matches('[data-action="start-game"]')) {
-      actions.onStartGame();
-      return;
-    }
-    if (target.matches('[data-action="restart"]')) {
-      actions.onRestart();
-      return;
-    }
-    if (target.matches('[data-action="back"]')) {
-      actions.onBackToCharacterSelect();
-      return;
+function handleEvents(runtime: GameRuntime, events: SimulationEvent[]): void {
+  publishSimulationEvents(gameEvents, events, runtime.state);
+  emitForEvents(runtime.effects, events, runtime.state);
+  triggerPlayerClips(runtime.playerAnims, events);
+  for (const event of events) {
+    if (event.type === 'roundStart') {
+      clearEffects(runtime.effects);
+      runtime.recording = createReplay(runtime.state);
+      runtime.highScore = { kind: 'none' };
+      beginScoring(runtime);
+      // Invincibility stays switched on across rounds.
+      if (runtime.debug?.invincible()) discardCheatedRound(runtime);
+    } else if (event.type === 'gameOver') {
+      if (runtime.recording) {
+        runtime.recording.finalScore = event.score;
+      }
+      if (!runtime.roundScored) continue;
+      const { gameMode } = runtime.state;
+      if (GAME_MODES[gameMode].daily && runtime.dailyAttempt) {
+        runtime.dailyAttempt.score = event.score;
+        saveDailyAttempt(runtime.dailyAttempt);
+      }
+      const characterId = getActiveContent().characters[runtime.state.selectedCharacterIndex].id;
+      if (qualifiesForLeaderboard(runtime.leaderboards[gameMode], event.score, characterId)) {
+        runtime.highScore = { kind: 'pending' };
+      }
     }
-    const card = target.closest<HTMLButtonElement>('.character-card');
-    if (card && card.dataset.index) {
-      const index = Number(card.dataset.index);
-      actions.onSelectCharacter(index);
+  }
+}
+
+// Shows the loading screen until the pack's critical assets are ready (or time
+// out), then moves on to the start screen.
+function preloadContent(runtime: GameRuntime, pack: ContentPack): void {
+  const id = ++runtime.preloadId;
+  setScreen(runtime.state, 'loading');
+  void preloadAssets(
+    buildAssetManifest(pack),
+    (progress) => {
+      if (id === runtime.preloadId) runtime.assets = progress;
+    },
+    PRELOAD_TIMEOUT * 1000,
+  ).then(() => {
+    if (id === runtime.preloadId && runtime.state.screen === 'loading') {
+      setScreen(runtime.state, 'start');
     }
   });
+}
 
-  const controller: UiController = {
-    update(state: GameState) {
-      // Update score on game over.
-      scoreSpan.textContent = String(state.score);
-
-      const screen = state.screen;
-      startScreen.style.display = screen === 'start' ? 'flex' : 'none';
-      charScreen.style.display = screen === 'characterSelect' ? 'flex' : 'none';
-      gameOverScreen.style.display = screen === 'gameOver' ? 'flex' : 'none';
+// Swaps the active content pack and returns to the start screen, so a round
+// never mixes items or difficulty from two packs.
+function activateContentPack(runtime: GameRuntime, ui: UiController, pack: ContentPack): void {
+  setActiveContent(pack);
+  runtime.state = createInitialState();
+  preloadContent(runtime, pack);
+  clearEffects(runtime.effects);
+  runtime.recording = null;
+  runtime.highScore = { kind: 'none' };
+  ui.refreshContent();
+}
 
-      // Pointer events: enabled when UI is visible, disabled during gameplay.
-      const anyUiVisible = screen === 'start' || screen === 'characterSelect' || screen === 'gameOver';
-      uiLayer.style.pointerEvents = anyUiVisible ? 'auto' : 'none';
-    },
-  };
+function applyAccessibility(runtime: GameRuntime): void {
+  runtime.effects.reducedMotion = resolveReducedMotion(runtime.accessibility.reducedMotion);
+  applyDocumentSettings(runtime.accessibility);
+}
 
-  return controller;
+function submitHighScore(runtime: GameRuntime, name: string): void {
+  if (runtime.highScore.kind !== 'pending') return;
+  const { state } = runtime;
+  const board = runtime.leaderboards[state.gameMode];
+  const rank = addLeaderboardEntry(board, {
+    name: sanitizeName(name),
+    score: state.score,
+    survivalTime: state.elapsedTime,
+    level: getLevel(state.elapsedTime),
+    date: new Date().toISOString(),
+    characterId: getActiveContent().characters[state.selectedCharacterIndex].id,
+  });
+  saveLeaderboard(board, state.gameMode);
+  runtime.highScore = { kind: 'saved', rank };
 }
 
-function setScreen(runtime: GameRuntime | GameState, screen: GameScreen): void {
-  if ('state' in runtime) {
-    runtime.state.screen = screen;
-  } else {
-    runtime.screen = screen;
+function loadReplay(runtime: GameRuntime, text: string): string | null {
+  try {
+    const replay = parseReplay(text);
+    if (replay.start.configVersion !== CONFIG_VERSION) {
+      console.warn(
+        `[replay] Recorded with config version ${replay.start.configVersion}, running ${CONFIG_VERSION}. Playback may differ.`,
+      );
+    }
+    runtime.playback = createPlayback(replay);
+    clearEffects(runtime.effects);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
   }
 }
 
-function selectCharacter(state: GameState, index: number): void {
-  if (index >= 0 && index < CHARACTERS.length) {
-    state.selectedCharacterIndex = index;
-  }
+function downloadReplay(runtime: GameRuntime): void {
+  const replay = runtime.recording;
+  if (!replay) return;
+  const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `tulu-replay-${replay.start.seed}-${replay.finalScore}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
 }
@@ -0,0 +1,104 @@
+// UI translations: message catalogs per locale (src/locales), `{name}` interpolation,
+// plural forms via Intl.PluralRules, and the persisted language choice.
+
+import { de } from './locales/de';
+import { en } from './locales/en';
+
+export type Locale = 'en' | 'de';
+export const LOCALES: Locale[] = ['en', 'de'];
+
+// Shown in their own language, so they can be found whatever is active.
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  de: 'Deutsch',
+};
+
+// Plural messages pick a form by the `count` parameter; `other` is the fallback.
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+
+// English is the reference catalog: every other locale must have the same keys.
+export type MessageKey = keyof typeof en;
+export type Catalog = Record<MessageKey, Message>;
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGS: Record<Locale, Catalog> = { en, de };
+
+const LOCALE_KEY = 'tulu.locale';
+
+let current: Locale = 'en';
+let pluralRules = new Intl.PluralRules(current);
+const listeners = new Set<(locale: Locale) => void>();
+
+export function t(key: MessageKey, params: MessageParams = {}): string {
+  const message = CATALOGS[current][key] ?? en[key];
+  const template =
+    typeof message === 'string' ? message : message[pluralRules.select(Number(params.count ?? 0))] ?? message.other;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+export function getLocale(): Locale {
+  return current;
+}
+
+function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+// First supported language from the browser's preference list, e.g. "de-AT" → de.
+export function detectLocale(): Locale {
+  const preferred = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  for (const tag of preferred) {
+    const base = tag?.toLowerCase().split('-')[0];
+    if (isLocale(base)) return base;
+  }
+  return 'en';
+}
+
+// Saved choice if any, otherwise the browser's language.
+export function loadLocale(): Locale {
+  try {
+    const saved = localStorage.getItem(LOCALE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch {
+    // Storage unavailable; fall through to detection.
+  }
+  return detectLocale();
+}
+
+function saveLocale(locale: Locale): void {
+  try {
+    localStorage.setItem(LOCALE_KEY, locale);
+  } catch {
+    // Ignore storage failures; the choice just won't persist.
+  }
+}
+
+// Switches the language without saving it (startup); see setLocale for user choices.
+export function applyLocale(locale: Locale): void {
+  current = locale;
+  pluralRules = new Intl.PluralRules(locale);
+  if (typeof document !== 'undefined') document.documentElement.lang = locale;
+  listeners.forEach((listener) => listener(locale));
+}
+
+export function setLocale(locale: Locale): void {
+  saveLocale(locale);
+  if (locale !== current) applyLocale(locale);
+}
+
+// Returns a function that removes the listener again.
+export function onLocaleChange(listener: (locale: Locale) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+// Fills static markup: `data-i18n` sets the text, `data-i18n-label` the aria-label.
+export function translateElement(root: ParentNode): void {
+  root.querySelectorAll<HTMLElement>('[data-i18n]').forEach((el) => {
+    el.textContent = t(el.dataset.i18n as MessageKey);
+  });
+  root.querySelectorAll<HTMLElement>('[data-i18n-label]').forEach((el) => {
+    el.setAttribute('aria-label', t(el.dataset.i18nLabel as MessageKey));
+  });
+}
@@ -1,67 +1,104 @@
+import type { KeyBindings } from './bindings';
+import { actionForCode } from './bindings';
+
 export interface InputState {
   left: boolean;
   right: boolean;
+  // Player 2's key set; alone, player 1 can use either.
+  left2: boolean;
+  right2: boolean;
   confirm: boolean;
   restart: boolean;
   back: boolean;
+  pause: boolean;
+  // Game-space X the player should follow (drag-to-follow touch scheme); null → unused.
+  targetX: number | null;
+  // Analog horizontal axis from a gamepad stick in [-1, 1]; 0 → use left/right.
+  axis: number;
+  // Player 2's stick (second connected gamepad).
+  axis2: number;
 }
 
+// The on/off inputs (everything except the follow target and analog axes).
+export type InputButton = Exclude<keyof InputState, 'targetX' | 'axis' | 'axis2'>;
+
+export const INPUT_BUTTONS: InputButton[] = ['left', 'right', 'left2', 'right2', 'confirm', 'restart', 'back', 'pause'];
+
 export function createInputState(): InputState {
   return {
     left: false,
     right: false,
+    left2: false,
+    right2: false,
     confirm: false,
     restart: false,
     back: false,
+    pause: false,
+    targetX: null,
+    axis: 0,
+    axis2: 0,
   };
 }
 
-export function attachInputListeners(input: InputState): () => void {
+// Typing a name into a form field must not move the player or restart the round.
+function isTextEntry(target: EventTarget | null): boolean {
+  return target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement;
+}
+
+// Enter and Space on a focused button press that button; the key must not also
+// reach the game, or it would act twice (e.g. resume, then pause again on click).
+const ACTIVATION_KEYS = ['Enter', 'NumpadEnter', 'Space'];
+
+function activatesFocusedControl(e: KeyboardEvent): boolean {
+  return (
+    ACTIVATION_KEYS.includes(e.code) &&
+    e.target instanceof Element &&
+    e.target.closest('button, a[href], summary, select') != null
+  );
+}
+
+// How touch and pointer input on the playfield is interpreted.
+export type TouchScheme = 'halves' | 'drag' | 'buttons';
+
+export const TOUCH_SCHEMES: TouchScheme[] = ['halves', 'drag', 'buttons'];
+
+const TOUCH_SCHEME_KEY = 'tulu.touchScheme';
+
+export function loadTouchScheme(): TouchScheme {
+  try {
+    const stored = localStorage.getItem(TOUCH_SCHEME_KEY);
+    if (stored && (TOUCH_SCHEMES as string[]).includes(stored)) {
+      return stored as TouchScheme;
+    }
+  } catch {
+    // Storage can be unavailable (private mode); fall back to the default.
+  }
+  return 'halves';
+}
+
+export function saveTouchScheme(scheme: TouchScheme): void {
+  try {
+    localStorage.setItem(TOUCH_SCHEME_KEY, scheme);
+  } catch {
+    // Ignore storage failures; the choice just won't persist.
+  }
+}
+
+// Keyboard input. Bindings are looked up on every event so rebinding applies immediately.
+export function attachInputListeners(input: InputState, getBindings: () => KeyBindings): () => void {
   const keyDown = (e: KeyboardEvent) => {
-    switch (e.code) {
-      case 'ArrowLeft':
-      case 'KeyA':
-        input.left = true;
-        break;
-      case 'ArrowRight':
-      case 'KeyD':
-        input.right = true;
-        break;
-      case 'Enter':
-      case 'Space':
-        input.confirm = true;
-        break;
-      case 'KeyR':
-        input.restart = true;
-        break;
-      case 'Escape':
-      case 'Backspace':
-        input.back = true;
-        break;
+    if (isTextEntry(e.target) || activatesFocusedControl(e)) return;
+    const action = actionForCode(getBindings(), e.code);
+    if (action) {
+      input[action] = true;
     }
   };
 
   const keyUp = (e: KeyboardEvent) => {
-    switch (e.code) {
-      case 'ArrowLeft':
-      case 'KeyA':
-        input.left = false;
-        break;
-      case 'ArrowRight':
-      case 'KeyD':
-        input.right = false;
-        break;
-      case 'Enter':
-      case 'Space':
-        input.confirm = false;
-        break;
-      case 'KeyR':
-        input.restart = false;
-        break;
-      case 'Escape':
-      case 'Backspace':
-        input.back = false;
-        break;
+    if (isTextEntry(e.target)) return;
+    const action = actionForCode(getBindings(), e.code);
+    if (action) {
+      input[action] = false;
     }
   };
 
@@ -74,3 +111,171 @@ export function attachInputListeners(input: InputState): () => void {
   };
 }
 
+// Pointer/touch input on the playfield. `toGameX` maps a client X coordinate into
+// game space; `getScheme` is read on every press so the scheme can change live.
+export function attachPointerListeners(
+  input: InputState,
+  surface: HTMLElement,
+  toGameX: (clientX: number) => number,
+  getScheme: () => TouchScheme,
+): () => void {
+  // Which half each active pointer is holding down (tap-and-hold scheme).
+  const held = new Map<number, 'left' | 'right'>();
+  let dragPointer: number | null = null;
+
+  const syncHeld = () => {
+    const sides = [...held.values()];
+    input.left = sides.includes('left');
+    input.right = sides.includes('right');
+  };
+
+  const pointerDown = (e: PointerEvent) => {
+    const scheme = getScheme();
+    if (scheme === 'buttons') return;
+    e.preventDefault();
+    surface.setPointerCapture(e.pointerId);
+
+    if (scheme === 'halves') {
+      const rect = surface.getBoundingClientRect();
+      held.set(e.pointerId, e.clientX < rect.left + rect.width / 2 ? 'left' : 'right');
+      syncHeld();
+    } else if (dragPointer === null) {
+      dragPointer = e.pointerId;
+      input.targetX = toGameX(e.clientX);
+    }
+  };
+
+  const pointerMove = (e: PointerEvent) => {
+    if (e.pointerId === dragPointer) {
+      input.targetX = toGameX(e.clientX);
+    }
+  };
+
+  const pointerUp = (e: PointerEvent) => {
+    if (held.delete(e.pointerId)) {
+      syncHeld();
+    }
+    if (e.pointerId === dragPointer) {
+      dragPointer = null;
+      input.targetX = null;
+    }
+  };
+
+  surface.addEventListener('pointerdown', pointerDown);
+  surface.addEventListener('pointermove', pointerMove);
+  surface.addEventListener('pointerup', pointerUp);
+  surface.addEventListener('pointercancel', pointerUp);
+
+  return () => {
+    surface.removeEventListener('pointerdown', pointerDown);
+    surface.removeEventListener('pointermove', pointerMove);
+    surface.removeEventListener('pointerup', pointerUp);
+    surface.removeEventListener('pointercancel', pointerUp);
+  };
+}
+
+// Stick deflection below this is treated as centred.
+export const GAMEPAD_DEAD_ZONE = 0.2;
+// Stick deflection that also counts as a left/right press (menus, character select).
+const GAMEPAD_STICK_PRESS = 0.5;
+
+// Standard-mapping button indices.
+const PAD_A = 0;
+const PAD_B = 1;
+const PAD_Y = 3;
+const PAD_START = 9;
+const PAD_DPAD_LEFT = 14;
+const PAD_DPAD_RIGHT = 15;
+
+export interface GamepadInput {
+  // Reads all connected pads into `input`; call once per frame.
+  poll: () => void;
+  detach: () => void;
+}
+
+// Gamepad API support. Pads are polled each frame, and buttons only write to
+// `input` when they change, so keyboard and pad can be used side by side.
+// The first connected pad moves player 1 and the second player 2; menu buttons
+// work from any pad.
+export function attachGamepadListeners(input: InputState): GamepadInput {
+  const connected = new Set<number>();
+  const previous = createButtonRecord();
+
+  const connect = (e: GamepadEvent) => {
+    connected.add(e.gamepad.index);
+  };
+
+  const disconnect = (e: GamepadEvent) => {
+    connected.delete(e.gamepad.index);
+    // Release whatever the pad was holding so the player doesn't keep drifting.
+    poll();
+  };
+
+  const poll = () => {
+    const pads = typeof navigator.getGamepads === 'function' ? navigator.getGamepads() : [];
+    const current = createButtonRecord();
+    const axes = [0, 0];
+    const active = [...connected]
+      .sort((a, b) => a - b)
+      .map((index) => pads[index])
+      .filter((pad): pad is Gamepad => pad != null && pad.connected);
+
+    // Pads beyond the second only drive the menu buttons.
+    active.forEach((pad, slot) => {
+      const pressed = (button: number) => pad.buttons[button]?.pressed ?? false;
+      const stick = applyDeadZone(pad.axes[0] ?? 0);
+      if (slot < 2) {
+        axes[slot] = stick;
+        const [left, right] = slot === 0 ? (['left', 'right'] as const) : (['left2', 'right2'] as const);
+        current[left] ||= pressed(PAD_DPAD_LEFT) || stick <= -GAMEPAD_STICK_PRESS;
+        current[right] ||= pressed(PAD_DPAD_RIGHT) || stick >= GAMEPAD_STICK_PRESS;
+      }
+      current.confirm ||= pressed(PAD_A) || pressed(PAD_START);
+      current.back ||= pressed(PAD_B);
+      current.pause ||= pressed(PAD_START);
+      current.restart ||= pressed(PAD_Y);
+    });
+
+    for (const key of INPUT_BUTTONS) {
+      if (current[key] !== previous[key]) {
+        input[key] = current[key];
+        previous[key] = current[key];
+      }
+    }
+    input.axis = axes[0];
+    input.axis2 = axes[1];
+  };
+
+  window.addEventListener('gamepadconnected', connect);
+  window.addEventListener('gamepaddisconnected', disconnect);
+
+  // Pads that were connected before the listeners were attached.
+  if (typeof navigator.getGamepads === 'function') {
+    for (const pad of navigator.getGamepads()) {
+      if (pad) connected.add(pad.index);
+    }
+  }
+
+  return {
+    poll,
+    detach: () => {
+      window.removeEventListener('gamepadconnected', connect);
+      window.removeEventListener('gamepaddisconnected', disconnect);
+    },
+  };
+}
+
+function createButtonRecord(): Record<InputButton, boolean> {
+  const record = {} as Record<InputButton, boolean>;
+  for (const key of INPUT_BUTTONS) {
+    record[key] = false;
+  }
+  return record;
+}
+
+// Rescales so movement starts at zero just outside the dead zone.
+function applyDeadZone(value: number): number {
+  const magnitude = Math.abs(value);
+  if (magnitude < GAMEPAD_DEAD_ZONE) return 0;
+  return Math.sign(value) * Math.min(1, (magnitude - GAMEPAD_DEAD_ZONE) / (1 - GAMEPAD_DEAD_ZONE));
+}
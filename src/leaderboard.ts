@@ -0,0 +1,143 @@
+// Local high-score tables stored in localStorage: top scores overall and per
+// character, kept separately for each game mode. Also remembers today's daily attempt.
+
+import type { GameModeId } from './config.ts';
+
+export const LEADERBOARD_SIZE = 10;
+export const MAX_NAME_LENGTH = 12;
+
+export interface LeaderboardEntry {
+  name: string;
+  score: number;
+  // Seconds survived in the round.
+  survivalTime: number;
+  level: number;
+  // ISO date string of when the round ended.
+  date: string;
+  characterId: string;
+}
+
+export interface Leaderboard {
+  overall: LeaderboardEntry[];
+  byCharacter: Record<string, LeaderboardEntry[]>;
+}
+
+const LEADERBOARD_KEY = 'tulu.leaderboard';
+
+// Endless keeps the original key so existing scores carry over.
+function leaderboardKey(mode: GameModeId): string {
+  return mode === 'endless' ? LEADERBOARD_KEY : `${LEADERBOARD_KEY}.${mode}`;
+}
+
+export function createEmptyLeaderboard(): Leaderboard {
+  return { overall: [], byCharacter: {} };
+}
+
+export function loadLeaderboard(mode: GameModeId): Leaderboard {
+  try {
+    const raw = localStorage.getItem(leaderboardKey(mode));
+    if (!raw) return createEmptyLeaderboard();
+    const data: unknown = JSON.parse(raw);
+    if (typeof data !== 'object' || data === null) return createEmptyLeaderboard();
+
+    const { overall, byCharacter } = data as Record<string, unknown>;
+    const board = createEmptyLeaderboard();
+    board.overall = readEntries(overall);
+    if (typeof byCharacter === 'object' && byCharacter !== null) {
+      for (const [characterId, entries] of Object.entries(byCharacter)) {
+        board.byCharacter[characterId] = readEntries(entries);
+      }
+    }
+    return board;
+  } catch {
+    console.warn('[leaderboard] Could not read saved scores, starting fresh.');
+    return createEmptyLeaderboard();
+  }
+}
+
+export function saveLeaderboard(board: Leaderboard, mode: GameModeId): void {
+  try {
+    localStorage.setItem(leaderboardKey(mode), JSON.stringify(board));
+  } catch {
+    // Ignore storage failures; scores just won't persist.
+  }
+}
+
+// The daily challenge's scored attempt: the UTC date it was played on, and its
+// score (null while the round is running, or if it was abandoned).
+export interface DailyAttempt {
+  date: string;
+  score: number | null;
+}
+
+const DAILY_ATTEMPT_KEY = 'tulu.dailyAttempt';
+
+export function loadDailyAttempt(): DailyAttempt | null {
+  try {
+    const raw = localStorage.getItem(DAILY_ATTEMPT_KEY);
+    if (!raw) return null;
+    const data = JSON.parse(raw) as Record<string, unknown>;
+    if (typeof data.date !== 'string') return null;
+    return { date: data.date, score: typeof data.score === 'number' ? data.score : null };
+  } catch {
+    return null;
+  }
+}
+
+export function saveDailyAttempt(attempt: DailyAttempt): void {
+  try {
+    localStorage.setItem(DAILY_ATTEMPT_KEY, JSON.stringify(attempt));
+  } catch {
+    // Ignore storage failures; the attempt just won't be remembered.
+  }
+}
+
+// True if the score would make it into the overall or the character's table.
+export function qualifiesForLeaderboard(board: Leaderboard, score: number, characterId: string): boolean {
+  if (score <= 0) return false;
+  return fitsInTable(board.overall, score) || fitsInTable(board.byCharacter[characterId] ?? [], score);
+}
+
+// Inserts the entry into both tables and returns its overall rank (1-based),
+// or null if it only placed in the character table.
+export function addLeaderboardEntry(board: Leaderboard, entry: LeaderboardEntry): number | null {
+  board.overall = insertEntry(board.overall, entry);
+  board.byCharacter[entry.characterId] = insertEntry(board.byCharacter[entry.characterId] ?? [], entry);
+  const rank = board.overall.indexOf(entry);
+  return rank >= 0 ? rank + 1 : null;
+}
+
+export function sanitizeName(name: string): string {
+  const trimmed = name.trim().slice(0, MAX_NAME_LENGTH);
+  return trimmed || '???';
+}
+
+function fitsInTable(entries: LeaderboardEntry[], score: number): boolean {
+  return entries.length < LEADERBOARD_SIZE || score > entries[entries.length - 1].score;
+}
+
+// Higher score first; on ties the earlier entry keeps its place.
+function insertEntry(entries: LeaderboardEntry[], entry: LeaderboardEntry): LeaderboardEntry[] {
+  const next = [...entries];
+  const index = next.findIndex((other) => entry.score > other.score);
+  next.splice(index === -1 ? next.length : index, 0, entry);
+  return next.slice(0, LEADERBOARD_SIZE);
+}
+
+function readEntries(value: unknown): LeaderboardEntry[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(
+      (entry): entry is LeaderboardEntry =>
+        typeof entry === 'object' &&
+        entry !== null &&
+        typeof entry.name === 'string' &&
+        typeof entry.score === 'number' &&
+        typeof entry.survivalTime === 'number' &&
+        typeof entry.level === 'number' &&
+        typeof entry.date === 'string' &&
+        typeof entry.characterId === 'string',
+    )
+    .sort((a, b) => b.score - a.score)
+    .slice(0, LEADERBOARD_SIZE);
+}
@@ -0,0 +1,170 @@
+// Leaderboard overlay opened from the start screen: one board per game mode, each
+// with overall top scores plus one tab per character.
+
+import { GAME_MODE_IDS } from './config.ts';
+import type { GameModeId } from './config.ts';
+import { getActiveContent } from './content';
+import { getLocale, onLocaleChange, t, translateElement } from './i18n';
+import type { Leaderboard, LeaderboardEntry } from './leaderboard';
+
+export interface LeaderboardPanel {
+  open: () => void;
+  close: () => void;
+  isOpen: () => boolean;
+}
+
+const OVERALL_TAB = 'overall';
+
+export function initLeaderboardPanel(
+  parent: HTMLElement,
+  getBoard: (mode: GameModeId) => Leaderboard,
+): LeaderboardPanel {
+  let visible = false;
+  let activeMode: GameModeId = 'endless';
+  let activeTab = OVERALL_TAB;
+
+  const screen = document.createElement('div');
+  screen.className = 'screen leaderboard-screen';
+  screen.innerHTML = `
+    <div class="panel">
+      <div class="panel-content">
+        <h2 class="title" data-i18n="leaderboard.title"></h2>
+        <div class="leaderboard-tabs" role="tablist">
+          ${GAME_MODE_IDS.map((mode) => `<button type="button" class="replay-btn" role="tab" data-mode="${mode}" data-i18n="gameMode.${mode}.name"></button>`).join('')}
+        </div>
+        <div class="leaderboard-tabs" role="tablist" data-character-tabs></div>
+        <table class="leaderboard-table">
+          <thead>
+            <tr>
+              <th>#</th>
+              <th data-i18n="leaderboard.name"></th>
+              <th data-i18n="leaderboard.score"></th>
+              <th data-i18n="leaderboard.time"></th>
+              <th data-i18n="leaderboard.level"></th>
+              <th data-character-column data-i18n="leaderboard.character"></th>
+              <th data-i18n="leaderboard.date"></th>
+            </tr>
+          </thead>
+          <tbody></tbody>
+        </table>
+        <div class="settings-actions">
+          <button type="button" class="replay-btn" data-leaderboard="close" data-i18n="common.done"></button>
+        </div>
+      </div>
+    </div>
+  `;
+  translateElement(screen);
+  parent.appendChild(screen);
+
+  const modeTabs = screen.querySelectorAll<HTMLButtonElement>('[data-mode]');
+  const tabList = screen.querySelector<HTMLDivElement>('[data-character-tabs]')!;
+  const body = screen.querySelector<HTMLTableSectionElement>('tbody')!;
+  const characterColumn = screen.querySelector<HTMLTableCellElement>('[data-character-column]')!;
+
+  // Tabs follow the active content pack's characters.
+  const renderTabs = () => {
+    const { characters } = getActiveContent();
+    if (activeTab !== OVERALL_TAB && !characters.some((char) => char.id === activeTab)) {
+      activeTab = OVERALL_TAB;
+    }
+    // Built with DOM APIs: names come from (possibly third-party) content packs.
+    const tabs = [{ id: OVERALL_TAB, name: t('leaderboard.overall') }, ...characters].map((char) => {
+      const tab = document.createElement('button');
+      tab.type = 'button';
+      tab.className = 'replay-btn';
+      tab.setAttribute('role', 'tab');
+      tab.dataset.tab = char.id;
+      tab.textContent = char.name;
+      return tab;
+    });
+    tabList.replaceChildren(...tabs);
+  };
+
+  const render = () => {
+    const board = getBoard(activeMode);
+    modeTabs.forEach((tab) => {
+      const selected = tab.dataset.mode === activeMode;
+      tab.classList.toggle('active', selected);
+      tab.setAttribute('aria-selected', String(selected));
+    });
+    const tabs = tabList.querySelectorAll<HTMLButtonElement>('[data-tab]');
+    const showCharacter = activeTab === OVERALL_TAB;
+    const entries = showCharacter ? board.overall : board.byCharacter[activeTab] ?? [];
+
+    tabs.forEach((tab) => {
+      const selected = tab.dataset.tab === activeTab;
+      tab.classList.toggle('active', selected);
+      tab.setAttribute('aria-selected', String(selected));
+    });
+    characterColumn.style.display = showCharacter ? '' : 'none';
+
+    body.replaceChildren(...entries.map((entry, index) => renderRow(entry, index + 1, showCharacter)));
+    if (entries.length === 0) {
+      const row = body.insertRow();
+      const cell = row.insertCell();
+      cell.colSpan = 7;
+      cell.className = 'leaderboard-empty';
+      cell.textContent = t('leaderboard.empty');
+    }
+  };
+
+  onLocaleChange(() => {
+    translateElement(screen);
+    if (!visible) return;
+    renderTabs();
+    render();
+  });
+
+  screen.addEventListener('click', (event) => {
+    const target = event.target as HTMLElement | null;
+    if (!target) return;
+    if (target.dataset.mode) {
+      activeMode = target.dataset.mode as GameModeId;
+      render();
+      return;
+    }
+    if (target.dataset.tab) {
+      activeTab = target.dataset.tab;
+      render();
+      return;
+    }
+    if (target.dataset.leaderboard === 'close') {
+      panel.close();
+    }
+  });
+
+  const panel: LeaderboardPanel = {
+    open() {
+      visible = true;
+      renderTabs();
+      render();
+      screen.style.display = 'flex';
+    },
+    close() {
+      visible = false;
+      screen.style.display = 'none';
+    },
+    isOpen: () => visible,
+  };
+
+  return panel;
+}
+
+function renderRow(entry: LeaderboardEntry, rank: number, showCharacter: boolean): HTMLTableRowElement {
+  const row = document.createElement('tr');
+  const character = getActiveContent().characters.find((char) => char.id === entry.characterId);
+  const cells = [
+    String(rank),
+    entry.name,
+    String(entry.score),
+    `${Math.floor(entry.survivalTime)}s`,
+    String(entry.level),
+    ...(showCharacter ? [character?.name ?? entry.characterId] : []),
+    new Date(entry.date).toLocaleDateString(getLocale()),
+  ];
+  for (const text of cells) {
+    // textContent, not innerHTML: names are user input.
+    row.insertCell().textContent = text;
+  }
+  return row;
+}
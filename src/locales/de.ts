@@ -0,0 +1,224 @@
+// German messages.
+
+import type { Catalog } from '../i18n';
+
+export const de: Catalog = {
+  'common.done': 'Fertig',
+  'common.player': 'Spieler {number}',
+
+  'loading.title': 'Wird geladen…',
+  'loading.count': '{done} / {total} Dateien',
+  'loading.failed': {
+    one: '{count} Datei konnte nicht geladen werden',
+    other: '{count} Dateien konnten nicht geladen werden',
+  },
+
+  'start.chooseCharacter': 'Wähle deinen Charakter',
+  'start.loadReplay': 'Wiederholung laden',
+  'start.leaderboard': 'Bestenliste',
+  'start.trophies': 'Trophäen',
+  'start.settings': 'Einstellungen',
+  'start.accessibility': 'Barrierefreiheit',
+  'start.language': 'Sprache',
+  'start.content': 'Inhalte:',
+  'start.loadPack': 'Paket laden…',
+  'start.resetPack': 'Standard verwenden',
+
+  'select.gameMode': 'Spielmodus',
+  'select.players': 'Spieler',
+  'select.choosingFor': 'Auswahl für:',
+  'select.startGame': 'Spiel starten',
+  'select.touchControls': 'Touch-Steuerung:',
+  'select.dailyUsed':
+    '{description} Dein heutiger Versuch ist verbraucht (Punkte: {score}), diese Runde ist nur zum Üben.',
+
+  'playMode.single': '1 Spieler',
+  'playMode.coop': 'Koop',
+  'playMode.versus': 'Versus',
+
+  'touchScheme.halves': 'Seiten tippen',
+  'touchScheme.drag': 'Ziehen',
+  'touchScheme.buttons': 'Tasten',
+
+  'gameMode.endless.name': 'Endlos',
+  'gameMode.endless.description': 'Fange, so lange du kannst. Nach drei Fehlgriffen ist Schluss.',
+  'gameMode.timeAttack60.name': 'Zeitangriff 60 s',
+  'gameMode.timeAttack60.description': 'Höchste Punktzahl in 60 Sekunden. Fehlgriffe kosten Punkte.',
+  'gameMode.timeAttack120.name': 'Zeitangriff 120 s',
+  'gameMode.timeAttack120.description': 'Höchste Punktzahl in 120 Sekunden. Fehlgriffe kosten Punkte.',
+  'gameMode.zen.name': 'Zen',
+  'gameMode.zen.description': 'Keine Bomben, keine Leben. Beende die Runde im Pausenmenü, wann du willst.',
+  'gameMode.daily.name': 'Tagesherausforderung',
+  'gameMode.daily.description': 'Heute für alle dieselbe Runde. Nur dein erster Versuch zählt.',
+
+  'gameOver.timeUp': 'Zeit abgelaufen!',
+  'gameOver.title': 'Spiel vorbei',
+  'gameOver.finished': 'Runde beendet',
+  'gameOver.score': 'Punkte: {score}',
+  'gameOver.bestStreak': 'Beste Serie: {streak}',
+  'gameOver.seed': 'Seed: {seed}',
+  'gameOver.playerResult': {
+    one: 'Spieler {number}: {count} Punkt · beste Serie {streak}',
+    other: 'Spieler {number}: {count} Punkte · beste Serie {streak}',
+  },
+  'gameOver.winner': 'Spieler {number} gewinnt!',
+  'gameOver.highScorePrompt': 'Neuer Highscore! Gib deine Initialen ein:',
+  'gameOver.save': 'Speichern',
+  'gameOver.savedRank': 'Gespeichert! Platz {rank} insgesamt',
+  'gameOver.savedCharacter': 'In der Bestenliste des Charakters gespeichert!',
+  'gameOver.restart': 'Neustart',
+  'gameOver.characterSelect': 'Charakterauswahl',
+  'gameOver.downloadReplay': 'Wiederholung herunterladen',
+
+  'round.dailyScored': 'Tagesherausforderung {date}: Das war dein gewerteter Versuch.',
+  'round.dailyPractice': 'Übungsrunde. Heutiger gewerteter Versuch: {score}',
+  'round.timeAttack': '{catches} gefangen · {misses} verpasst',
+  'round.zen': '{catches} gefangen in {seconds} s',
+
+  'pause.title': 'Pause',
+  'pause.resume': 'Weiter',
+  'pause.quit': 'Zur Charakterauswahl',
+  'pause.finish': 'Runde beenden',
+
+  'touch.left': 'Nach links',
+  'touch.right': 'Nach rechts',
+
+  'replay.label': 'Wiederholung',
+  'replay.play': 'Abspielen',
+  'replay.pause': 'Pause',
+  'replay.position': 'Position in der Wiederholung',
+  'replay.exit': 'Beenden',
+
+  'replay.error.json': 'Die Wiederholung ist kein gültiges JSON',
+  'replay.error.format': 'Die Datei ist keine Wiederholung',
+  'replay.error.version': 'Nicht unterstützte Wiederholungsversion {version} (erwartet: {expected})',
+  'replay.error.start': 'Der Wiederholung fehlen die Startparameter',
+  'replay.error.contentPack':
+    'Die Wiederholung wurde mit dem Inhaltspaket „{pack}“ aufgenommen; lade zuerst dieses Paket (aktiv: „{active}“)',
+  'replay.error.character': 'Die Wiederholung hat einen unbekannten Charakterindex: {value}',
+  'replay.error.mode': 'Die Wiederholung hat einen unbekannten Modus: {value}',
+  'replay.error.gameMode': 'Die Wiederholung hat einen unbekannten Spielmodus: {value}',
+  'replay.error.player2Character': 'Die Wiederholung hat einen unbekannten Charakterindex für Spieler 2: {value}',
+  'replay.error.seed': 'Die Wiederholung hat einen ungültigen Seed: {value}',
+  'replay.error.configVersion': 'Der Wiederholung fehlt die Konfigurationsversion',
+  'replay.error.frames': 'Die Wiederholung enthält keine Frames',
+  'replay.error.frameDt': 'Frame {frame} der Wiederholung hat ein ungültiges dt',
+  'replay.error.frameInput': 'Frame {frame} der Wiederholung hat keine Eingabe',
+  'replay.error.inputValue': 'Frame {frame} der Wiederholung hat eine ungültige Eingabe „{input}“',
+
+  'pack.error.download': 'Inhaltspaket konnte nicht von {url} geladen werden',
+  'pack.error.http': 'Inhaltspaket konnte nicht von {url} geladen werden (HTTP {status})',
+  'pack.error.json': 'Das Inhaltspaket ist kein gültiges JSON ({reason})',
+  'pack.error.invalid': 'Das Inhaltspaket ist ungültig',
+  'pack.error.builtIn': 'Das eingebaute Inhaltspaket „{id}“ ist ungültig',
+  'pack.error.duplicateItem': '{path}: doppelte Gegenstands-ID „{id}“',
+  'pack.error.hazardPowerUp': '{path}: Gefahren können keine Power-ups sein',
+  'pack.error.duplicateCharacter': '{path}: doppelte Charakter-ID „{id}“',
+  'pack.error.unknownItem': '{path}: unbekannte Gegenstands-ID „{id}“',
+  'pack.error.hazardItem': '{path}: „{id}“ ist eine Gefahr; Gefahren erscheinen für alle',
+  'pack.error.powerUpItem': '{path}: „{id}“ ist ein Power-up; Power-ups erscheinen für alle',
+  'pack.error.keyframeOrder': '{path}: muss größer als die Zeit des vorherigen Keyframes sein',
+  'pack.error.expected': '{path}: erwartet {expected}, erhalten {value}',
+  'pack.error.minLength': {
+    one: '{path}: braucht mindestens {count} Eintrag',
+    other: '{path}: braucht mindestens {count} Einträge',
+  },
+  'pack.error.missingField': '{path}: Pflichtfeld fehlt',
+  'pack.error.unknownField': '{path}: unbekanntes Feld',
+  'pack.path.root': '(Wurzel)',
+  'pack.value.string': 'einen nicht leeren Text',
+  'pack.value.nullableString': 'einen Text oder null',
+  'pack.value.boolean': 'true oder false',
+  'pack.value.positive': 'eine positive Zahl',
+  'pack.value.atLeast': 'eine Zahl ≥ {min}',
+  'pack.value.oneOf': 'einen von {values}',
+  'pack.value.array': 'ein Array',
+  'pack.value.object': 'ein Objekt',
+  'pack.value.nothing': 'nichts',
+
+  'hud.score': 'Punkte: {score}',
+  'hud.playerScore': 'S{number} Punkte: {score}',
+  'hud.lives': 'Leben: {lives}',
+  'hud.time': 'Zeit: {seconds} s',
+  'hud.timeLeft': 'Restzeit: {seconds} s',
+  'hud.level': 'Level: {level}',
+  'hud.daily': 'Tagesherausforderung',
+  'hud.streak': 'Serie: {streak}',
+
+  'effect.shield': 'Schild',
+  'effect.magnet': 'Magnet',
+  'effect.slowMotion': 'Zeitlupe',
+  'effect.extraLife': 'Extraleben',
+
+  'controls.instructions': '{move} zum Bewegen・{confirm}/Klick zum Starten・{pause} für Pause',
+  'controls.or': 'oder',
+
+  'action.left': 'Nach links (S1)',
+  'action.right': 'Nach rechts (S1)',
+  'action.left2': 'Nach links (S2)',
+  'action.right2': 'Nach rechts (S2)',
+  'action.confirm': 'Bestätigen / Start',
+  'action.restart': 'Neustart',
+  'action.back': 'Zurück',
+  'action.pause': 'Pause / weiter',
+
+  'settings.controls': 'Steuerung',
+  'settings.bindings': 'Tastenbelegung',
+  'settings.reset': 'Auf Standard zurücksetzen',
+  'settings.resetDone': 'Steuerung auf Standard zurückgesetzt.',
+  'settings.addKey': '+ Taste hinzufügen',
+  'settings.pressKey': 'Taste drücken…',
+  'settings.pressKeyFor': 'Drücke eine Taste für {action}.',
+  'settings.removeKey': '{key} von {action} entfernen',
+  'settings.alreadyBound': '{key} ist bereits {action} zugewiesen.',
+  'settings.conflict': '{key} wird schon für {action} verwendet. Entferne sie dort zuerst.',
+  'settings.sound': 'Ton',
+  'settings.mute': 'Stumm',
+  'volume.master': 'Gesamt',
+  'volume.music': 'Musik',
+  'volume.sfx': 'Effekte',
+
+  'leaderboard.title': 'Bestenliste',
+  'leaderboard.overall': 'Gesamt',
+  'leaderboard.name': 'Name',
+  'leaderboard.score': 'Punkte',
+  'leaderboard.time': 'Zeit',
+  'leaderboard.level': 'Level',
+  'leaderboard.character': 'Charakter',
+  'leaderboard.date': 'Datum',
+  'leaderboard.empty': 'Noch keine Einträge. Sei die oder der Erste!',
+
+  'trophies.title': 'Trophäen',
+  'trophies.count': '{unlocked} von {total} freigeschaltet',
+  'trophies.unlocked': 'Erfolg freigeschaltet',
+
+  'achievement.rare10.title': 'Schatzsucher',
+  'achievement.rare10.description': 'Fange 10 seltene Gegenstände in einer Runde.',
+  'achievement.survive120.title': 'Durchhalter',
+  'achievement.survive120.description': 'Überlebe 120 Sekunden in einer Runde mit Leben.',
+  'achievement.dodge20.title': 'Bombenentschärfer',
+  'achievement.dodge20.description': 'Weiche in einer Runde 20 Bomben aus.',
+  'achievement.streak35.title': 'Nicht zu bremsen',
+  'achievement.streak35.description': 'Erreiche eine Serie von 35 Fängen.',
+  'achievement.catch1000.title': 'Korbvoll',
+  'achievement.catch1000.description': 'Fange insgesamt 1000 Gegenstände.',
+  'achievement.allCharacters5.title': 'Ensemble',
+  'achievement.allCharacters5.description': 'Erreiche Level {level} mit jedem Charakter.',
+
+  'a11y.title': 'Barrierefreiheit',
+  'a11y.announcements': 'Ansagen für Screenreader (Punkte, Leben, Level)',
+  'a11y.itemMarkers': 'Formmarkierungen an Gegenständen (Bomben, seltene Gegenstände, Power-ups)',
+  'a11y.highContrast': 'Hoher Kontrast',
+  'a11y.reducedMotion': 'Bewegung reduzieren (kein Wackeln, Blitzen oder Animationen)',
+  'a11y.reducedMotion.system': 'Systemeinstellung folgen',
+  'a11y.reducedMotion.on': 'An',
+  'a11y.reducedMotion.off': 'Aus',
+
+  'announce.score': '{score} Punkte.',
+  'announce.lifeLost': 'Leben verloren. Noch {count} Leben.',
+  'announce.playerLifeLost': 'Spieler {number}: Leben verloren. Noch {count} Leben.',
+  'announce.level': 'Level {level}. {score} Punkte.',
+  'announce.roundStart': 'Runde gestartet.',
+  'announce.paused': 'Pausiert. {score} Punkte.',
+  'announce.gameOver': 'Spiel vorbei. Endstand {score} Punkte.',
+};
@@ -0,0 +1,222 @@
+// English messages; the reference catalog every other locale must match.
+
+import type { Message } from '../i18n';
+
+export const en = {
+  'common.done': 'Done',
+  'common.player': 'Player {number}',
+
+  'loading.title': 'Loading…',
+  'loading.count': '{done} / {total} assets',
+  'loading.failed': { one: '{count} asset failed to load', other: '{count} assets failed to load' },
+
+  'start.chooseCharacter': 'Choose your character',
+  'start.loadReplay': 'Load replay',
+  'start.leaderboard': 'Leaderboard',
+  'start.trophies': 'Trophies',
+  'start.settings': 'Settings',
+  'start.accessibility': 'Accessibility',
+  'start.language': 'Language',
+  'start.content': 'Content:',
+  'start.loadPack': 'Load pack…',
+  'start.resetPack': 'Use default',
+
+  'select.gameMode': 'Game mode',
+  'select.players': 'Players',
+  'select.choosingFor': 'Choosing for:',
+  'select.startGame': 'Start game',
+  'select.touchControls': 'Touch controls:',
+  'select.dailyUsed': "{description} Today's attempt is used up (score: {score}), this will be a practice run.",
+
+  'playMode.single': '1 Player',
+  'playMode.coop': 'Co-op',
+  'playMode.versus': 'Versus',
+
+  'touchScheme.halves': 'Tap sides',
+  'touchScheme.drag': 'Drag',
+  'touchScheme.buttons': 'Buttons',
+
+  'gameMode.endless.name': 'Endless',
+  'gameMode.endless.description': 'Catch as long as you can. Three misses and you are out.',
+  'gameMode.timeAttack60.name': 'Time Attack 60s',
+  'gameMode.timeAttack60.description': 'Highest score in 60 seconds. Misses cost points.',
+  'gameMode.timeAttack120.name': 'Time Attack 120s',
+  'gameMode.timeAttack120.description': 'Highest score in 120 seconds. Misses cost points.',
+  'gameMode.zen.name': 'Zen',
+  'gameMode.zen.description': 'No bombs, no lives. Finish whenever you like from the pause menu.',
+  'gameMode.daily.name': 'Daily Challenge',
+  'gameMode.daily.description': 'Same round for everyone today. Only your first attempt counts.',
+
+  'gameOver.timeUp': "Time's up!",
+  'gameOver.title': 'Game Over',
+  'gameOver.finished': 'Round finished',
+  'gameOver.score': 'Score: {score}',
+  'gameOver.bestStreak': 'Best streak: {streak}',
+  'gameOver.seed': 'Seed: {seed}',
+  'gameOver.playerResult': {
+    one: 'Player {number}: {count} point · best streak {streak}',
+    other: 'Player {number}: {count} points · best streak {streak}',
+  },
+  'gameOver.winner': 'Player {number} wins!',
+  'gameOver.highScorePrompt': 'New high score! Enter your initials:',
+  'gameOver.save': 'Save',
+  'gameOver.savedRank': 'Saved! #{rank} overall',
+  'gameOver.savedCharacter': 'Saved to the character leaderboard!',
+  'gameOver.restart': 'Restart',
+  'gameOver.characterSelect': 'Character Select',
+  'gameOver.downloadReplay': 'Download replay',
+
+  'round.dailyScored': 'Daily challenge {date}: this was your scored attempt.',
+  'round.dailyPractice': "Practice run. Today's scored attempt: {score}",
+  'round.timeAttack': 'Caught {catches} · missed {misses}',
+  'round.zen': 'Caught {catches} in {seconds}s',
+
+  'pause.title': 'Paused',
+  'pause.resume': 'Resume',
+  'pause.quit': 'Quit to character select',
+  'pause.finish': 'Finish round',
+
+  'touch.left': 'Move left',
+  'touch.right': 'Move right',
+
+  'replay.label': 'Replay',
+  'replay.play': 'Play',
+  'replay.pause': 'Pause',
+  'replay.position': 'Replay position',
+  'replay.exit': 'Exit',
+
+  'replay.error.json': 'Replay is not valid JSON',
+  'replay.error.format': 'File is not a replay',
+  'replay.error.version': 'Unsupported replay version {version} (expected {expected})',
+  'replay.error.start': 'Replay is missing its start parameters',
+  'replay.error.contentPack': 'Replay was recorded with content pack "{pack}"; load that pack first (active: "{active}")',
+  'replay.error.character': 'Replay has an unknown character index: {value}',
+  'replay.error.mode': 'Replay has an unknown mode: {value}',
+  'replay.error.gameMode': 'Replay has an unknown game mode: {value}',
+  'replay.error.player2Character': 'Replay has an unknown player 2 character index: {value}',
+  'replay.error.seed': 'Replay has an invalid seed: {value}',
+  'replay.error.configVersion': 'Replay is missing its config version',
+  'replay.error.frames': 'Replay has no frames',
+  'replay.error.frameDt': 'Replay frame {frame} has an invalid dt',
+  'replay.error.frameInput': 'Replay frame {frame} has no input',
+  'replay.error.inputValue': 'Replay frame {frame} has an invalid "{input}" input',
+
+  'pack.error.download': 'Could not download content pack from {url}',
+  'pack.error.http': 'Could not download content pack from {url} (HTTP {status})',
+  'pack.error.json': 'Content pack is not valid JSON ({reason})',
+  'pack.error.invalid': 'Content pack is invalid',
+  'pack.error.builtIn': 'Built-in content pack "{id}" is invalid',
+  'pack.error.duplicateItem': '{path}: duplicate item id "{id}"',
+  'pack.error.hazardPowerUp': "{path}: hazards can't be power-ups",
+  'pack.error.duplicateCharacter': '{path}: duplicate character id "{id}"',
+  'pack.error.unknownItem': '{path}: unknown item id "{id}"',
+  'pack.error.hazardItem': '{path}: "{id}" is a hazard; hazards spawn for everyone',
+  'pack.error.powerUpItem': '{path}: "{id}" is a power-up; power-ups spawn for everyone',
+  'pack.error.keyframeOrder': "{path}: must be greater than the previous keyframe's time",
+  'pack.error.expected': '{path}: expected {expected}, got {value}',
+  'pack.error.minLength': {
+    one: '{path}: needs at least {count} entry',
+    other: '{path}: needs at least {count} entries',
+  },
+  'pack.error.missingField': '{path}: missing required field',
+  'pack.error.unknownField': '{path}: unknown field',
+  'pack.path.root': '(root)',
+  'pack.value.string': 'a non-empty string',
+  'pack.value.nullableString': 'a string or null',
+  'pack.value.boolean': 'true or false',
+  'pack.value.positive': 'a positive number',
+  'pack.value.atLeast': 'a number ≥ {min}',
+  'pack.value.oneOf': 'one of {values}',
+  'pack.value.array': 'an array',
+  'pack.value.object': 'an object',
+  'pack.value.nothing': 'nothing',
+
+  'hud.score': 'Score: {score}',
+  'hud.playerScore': 'P{number} Score: {score}',
+  'hud.lives': 'Lives: {lives}',
+  'hud.time': 'Time: {seconds}s',
+  'hud.timeLeft': 'Time left: {seconds}s',
+  'hud.level': 'Level: {level}',
+  'hud.daily': 'Daily challenge',
+  'hud.streak': 'Streak: {streak}',
+
+  'effect.shield': 'Shield',
+  'effect.magnet': 'Magnet',
+  'effect.slowMotion': 'Slow-mo',
+  'effect.extraLife': 'Extra life',
+
+  'controls.instructions': 'Press {move} to move・{confirm}/Click to start・{pause} to pause',
+  'controls.or': 'or',
+
+  'action.left': 'Move left (P1)',
+  'action.right': 'Move right (P1)',
+  'action.left2': 'Move left (P2)',
+  'action.right2': 'Move right (P2)',
+  'action.confirm': 'Confirm / start',
+  'action.restart': 'Restart',
+  'action.back': 'Back',
+  'action.pause': 'Pause / resume',
+
+  'settings.controls': 'Controls',
+  'settings.bindings': 'Key bindings',
+  'settings.reset': 'Reset to defaults',
+  'settings.resetDone': 'Controls reset to defaults.',
+  'settings.addKey': '+ Add key',
+  'settings.pressKey': 'Press a key…',
+  'settings.pressKeyFor': 'Press a key for {action}.',
+  'settings.removeKey': 'Remove {key} from {action}',
+  'settings.alreadyBound': '{key} is already bound to {action}.',
+  'settings.conflict': '{key} is already used for {action}. Remove it there first.',
+  'settings.sound': 'Sound',
+  'settings.mute': 'Mute',
+  'volume.master': 'Master',
+  'volume.music': 'Music',
+  'volume.sfx': 'Effects',
+
+  'leaderboard.title': 'Leaderboard',
+  'leaderboard.overall': 'Overall',
+  'leaderboard.name': 'Name',
+  'leaderboard.score': 'Score',
+  'leaderboard.time': 'Time',
+  'leaderboard.level': 'Level',
+  'leaderboard.character': 'Character',
+  'leaderboard.date': 'Date',
+  'leaderboard.empty': 'No scores yet. Be the first!',
+
+  'trophies.title': 'Trophies',
+  'trophies.count': '{unlocked} of {total} unlocked',
+  'trophies.unlocked': 'Achievement unlocked',
+
+  'achievement.rare10.title': 'Treasure Hunter',
+  'achievement.rare10.description': 'Catch 10 rare items in one round.',
+  'achievement.survive120.title': 'Stayin’ Alive',
+  'achievement.survive120.description': 'Survive 120 seconds in a round with lives.',
+  'achievement.dodge20.title': 'Bomb Squad',
+  'achievement.dodge20.description': 'Dodge 20 bombs in one round.',
+  'achievement.streak35.title': 'On Fire',
+  'achievement.streak35.description': 'Reach a streak of 35 catches.',
+  'achievement.catch1000.title': 'Basket Case',
+  'achievement.catch1000.description': 'Catch 1000 items in total.',
+  'achievement.allCharacters5.title': 'Ensemble',
+  'achievement.allCharacters5.description': 'Reach level {level} with every character.',
+
+  'a11y.title': 'Accessibility',
+  'a11y.announcements': 'Screen-reader announcements (score, lives, level)',
+  'a11y.itemMarkers': 'Shape markers on items (bombs, rare items, power-ups)',
+  'a11y.highContrast': 'High contrast',
+  'a11y.reducedMotion': 'Reduce motion (no screen shake, flashes or animations)',
+  'a11y.reducedMotion.system': 'Follow system setting',
+  'a11y.reducedMotion.on': 'On',
+  'a11y.reducedMotion.off': 'Off',
+
+  'announce.score': 'Score {score}.',
+  'announce.lifeLost': { one: 'Life lost. {count} life left.', other: 'Life lost. {count} lives left.' },
+  'announce.playerLifeLost': {
+    one: 'Player {number}: life lost. {count} life left.',
+    other: 'Player {number}: life lost. {count} lives left.',
+  },
+  'announce.level': 'Level {level}. Score {score}.',
+  'announce.roundStart': 'Round started.',
+  'announce.paused': 'Paused. Score {score}.',
+  'announce.gameOver': 'Game over. Final score {score}.',
+} satisfies Record<string, Message>;
@@ -1,5 +1,8 @@
 import './style.css';
 import { startGame } from './game';
+import { assertValidContent } from './content';
+
+assertValidContent();
 
 const app = document.querySelector<HTMLDivElement>('#app');
 if (!app) {
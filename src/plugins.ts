@@ -0,0 +1,75 @@
+// Plugin registry: features such as analytics, stream overlays or extra sound
+// subscribe to the game event bus from the outside, without touching game.ts.
+//
+//   registerPlugin({
+//     name: 'analytics',
+//     setup: ({ on }) => {
+//       on('catch', (event) => track('catch', event.itemType, event.elapsedTime));
+//     },
+//   });
+
+import type { GameEventBus, GameEventHandler, GameEventType } from './events';
+import { gameEvents } from './events';
+
+export interface PluginContext {
+  // Like GameEventBus.on; handlers are removed again when the plugin is unregistered.
+  on: <K extends GameEventType>(type: K, handler: GameEventHandler<K>) => () => void;
+}
+
+export interface GamePlugin {
+  // Unique; used in error messages and to replace an earlier registration.
+  name: string;
+  // May return a cleanup function, called on unregister.
+  setup: (context: PluginContext) => void | (() => void);
+}
+
+interface ActivePlugin {
+  unsubscribers: (() => void)[];
+  cleanup: (() => void) | null;
+}
+
+const active = new Map<string, ActivePlugin>();
+
+// Registers a plugin on the game's bus (or `bus`, e.g. in tests). Returns a function
+// that unregisters it. A plugin whose setup throws is skipped, not fatal.
+export function registerPlugin(plugin: GamePlugin, bus: GameEventBus = gameEvents): () => void {
+  unregisterPlugin(plugin.name);
+
+  const entry: ActivePlugin = { unsubscribers: [], cleanup: null };
+  const context: PluginContext = {
+    on(type, handler) {
+      const unsubscribe = bus.on(type, handler, `plugin "${plugin.name}"`);
+      entry.unsubscribers.push(unsubscribe);
+      return unsubscribe;
+    },
+  };
+
+  try {
+    entry.cleanup = plugin.setup(context) ?? null;
+  } catch (err) {
+    console.error(`[plugins] Setup of "${plugin.name}" failed:`, err);
+    entry.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    return () => {};
+  }
+
+  active.set(plugin.name, entry);
+  return () => {
+    if (active.get(plugin.name) === entry) unregisterPlugin(plugin.name);
+  };
+}
+
+export function unregisterPlugin(name: string): void {
+  const entry = active.get(name);
+  if (!entry) return;
+  active.delete(name);
+  entry.unsubscribers.forEach((unsubscribe) => unsubscribe());
+  try {
+    entry.cleanup?.();
+  } catch (err) {
+    console.error(`[plugins] Cleanup of "${name}" failed:`, err);
+  }
+}
+
+export function getRegisteredPlugins(): string[] {
+  return [...active.keys()];
+}
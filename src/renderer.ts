@@ -1,6 +1,17 @@
-import type { GameState } from './entities';
-import { drawPlayer, drawFallingItem } from './entities';
-import { GAME_CONFIG } from './config.ts';
+import type { FallingItem, GameState, Player, Rect } from './entities';
+import type { AccessibilitySettings } from './accessibility';
+import type { PowerUpEffect } from './config.ts';
+import type { PlayerAnimation } from './animation';
+import type { Effects } from './effects';
+import { drawEffects, drawFlash, getShakeOffset } from './effects';
+import { drawPlayer, drawFallingItem, interpolatedRect } from './entities';
+import { GAME_CONFIG, GAME_MODES, COMBO_POP_DURATION, getLevel, isRareItemFor } from './config.ts';
+import type { MessageKey } from './i18n';
+import { t } from './i18n';
+
+export type RenderOptions = Pick<AccessibilitySettings, 'itemMarkers' | 'highContrast'>;
+
+const DEFAULT_RENDER_OPTIONS: RenderOptions = { itemMarkers: false, highContrast: false };
 
 // Leftover helper signature so existing imports compile;
 // canvas-based character select now uses HTML instead, so this is unused.
@@ -15,8 +26,16 @@ export function getCharacterSlots(_canvasWidth: number, _canvasHeight: number):
   return [];
 }
 
-// Main render entry: only draws gameplay (no UI screens).
-export function render(ctx: CanvasRenderingContext2D, state: GameState): void {
+// Main render entry: only draws gameplay (no UI screens). `alpha` is how far the
+// frame lies between the last two simulation steps (0..1).
+export function render(
+  ctx: CanvasRenderingContext2D,
+  state: GameState,
+  effects: Effects,
+  playerAnims: PlayerAnimation[],
+  alpha = 1,
+  options: RenderOptions = DEFAULT_RENDER_OPTIONS,
+): void {
   const { width, height } = GAME_CONFIG;
 
   // Clear canvas with base background color.
@@ -25,61 +44,278 @@ export function render(ctx: CanvasRenderingContext2D, state: GameState): void {
 
   // Only render the playfield while the game is running or on the final frame
   // of game over. Start- and character-select-screens are HTML overlays.
-  if (state.screen === 'playing' || state.screen === 'gameOver') {
-    renderGameplay(ctx, state);
+  if (state.screen === 'playing' || state.screen === 'paused' || state.screen === 'gameOver') {
+    renderGameplay(ctx, state, effects, playerAnims, alpha, options);
   }
 }
 
-function renderGameplay(ctx: CanvasRenderingContext2D, state: GameState): void {
+// Layers, back to front: background, back effects, items, player, front effects,
+// HUD, screen flash. Screen shake moves the world layers but not the HUD.
+function renderGameplay(
+  ctx: CanvasRenderingContext2D,
+  state: GameState,
+  effects: Effects,
+  playerAnims: PlayerAnimation[],
+  alpha: number,
+  options: RenderOptions,
+): void {
   const { width, height } = GAME_CONFIG;
+  // Nothing moves outside a running round, so show the latest positions as they are.
+  const blend = state.screen === 'playing' ? alpha : 1;
 
   // Gameplay background.
   ctx.fillStyle = '#ffffff';
   ctx.fillRect(0, 0, width, height);
 
-  ctx.fillStyle = '#C9E3FF';
+  const shake = getShakeOffset(effects);
+  ctx.save();
+  ctx.translate(shake.x, shake.y);
+
+  ctx.fillStyle = options.highContrast ? '#000000' : '#C9E3FF';
   ctx.fillRect(0, height - 10, width, 10);
 
-  // Draw miss effects behind items.
-  for (const fx of state.missEffects) {
-    const t = Math.max(0, fx.timer) / fx.maxTimer;
-    const radius = fx.radius * (0.9 + 0.3 * (1 - t));
-    ctx.save();
-    ctx.beginPath();
-    ctx.arc(fx.x, fx.y, radius, 0, Math.PI * 2);
-    ctx.strokeStyle = `rgba(252, 65, 29, ${t})`;
-    ctx.lineWidth = 3;
-    ctx.stroke();
-    ctx.restore();
-  }
+  drawEffects(ctx, effects, 'back');
 
   for (const item of state.items) {
-    drawFallingItem(ctx, item);
+    drawFallingItem(ctx, item, blend);
+    if (item.owner != null) renderOwnerMarker(ctx, interpolatedRect(item, blend), item.owner);
+    if (options.itemMarkers) renderItemMarker(ctx, state, item, interpolatedRect(item, blend), options.highContrast);
+  }
+
+  const shielded = state.activeEffects.some((fx) => fx.effect === 'shield');
+  for (const player of state.players) {
+    drawPlayer(ctx, player, playerAnims[player.index], blend);
+    const rect = interpolatedRect(player, blend);
+    if (shielded) renderShield(ctx, rect);
+    if (state.players.length > 1) renderPlayerTag(ctx, rect, player.index);
   }
 
-  if (state.player) {
-    drawPlayer(ctx, state.player);
+  drawEffects(ctx, effects, 'front');
+  ctx.restore();
+
+  renderHud(ctx, state, options.highContrast);
+  drawFlash(ctx, effects, width, height);
+
+  if (state.screen === 'paused') {
+    // Dim the frozen playfield; the pause menu itself is an HTML overlay.
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+    ctx.fillRect(0, 0, width, height);
+  } else if (state.resumeCountdown > 0) {
+    renderCountdown(ctx, state.resumeCountdown);
   }
+}
+
+// Tells two players apart regardless of the characters they picked.
+const PLAYER_TAG_COLORS = ['#FC411D', '#4299e1'];
+
+function renderPlayerTag(ctx: CanvasRenderingContext2D, player: Rect, index: number): void {
+  ctx.save();
+  ctx.font = '14px PPMori, system-ui, sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  ctx.fillStyle = PLAYER_TAG_COLORS[index];
+  ctx.fillText(`P${index + 1}`, player.x + player.width / 2, player.y - 4);
+  ctx.restore();
+}
+
+// Versus: a dot in the owner's color above each item.
+function renderOwnerMarker(ctx: CanvasRenderingContext2D, item: Rect, owner: number): void {
+  ctx.beginPath();
+  ctx.arc(item.x + item.width / 2, item.y - 6, 3, 0, Math.PI * 2);
+  ctx.fillStyle = PLAYER_TAG_COLORS[owner];
+  ctx.fill();
+}
+
+type ItemKind = 'bomb' | 'powerUp' | 'rare' | 'base';
+
+// Rare for whoever can catch it: the owner in versus, otherwise any player.
+function itemKind(state: GameState, item: FallingItem): ItemKind {
+  if (item.type.isHazard) return 'bomb';
+  if (item.type.powerUp) return 'powerUp';
+  const catchers = item.owner != null ? [state.players[item.owner]] : state.players;
+  return catchers.some((player) => isRareItemFor(player.character, item.type.id)) ? 'rare' : 'base';
+}
+
+// Colour-independent cue at the item's top-right corner: a warning triangle for
+// bombs, a star for rare items, a plus for power-ups and a dot for everything else.
+function renderItemMarker(
+  ctx: CanvasRenderingContext2D,
+  state: GameState,
+  item: FallingItem,
+  rect: Rect,
+  highContrast: boolean,
+): void {
+  const kind = itemKind(state, item);
+  const size = kind === 'base' ? 3 : 7;
+  const cx = rect.x + rect.width;
+  const cy = rect.y;
+
+  ctx.save();
+  ctx.beginPath();
+  if (kind === 'bomb') {
+    ctx.moveTo(cx, cy - size);
+    ctx.lineTo(cx + size, cy + size * 0.8);
+    ctx.lineTo(cx - size, cy + size * 0.8);
+    ctx.closePath();
+  } else if (kind === 'rare') {
+    for (let i = 0; i < 10; i++) {
+      const r = i % 2 === 0 ? size : size * 0.45;
+      const angle = -Math.PI / 2 + (i * Math.PI) / 5;
+      ctx.lineTo(cx + Math.cos(angle) * r, cy + Math.sin(angle) * r);
+    }
+    ctx.closePath();
+  } else if (kind === 'powerUp') {
+    const a = size * 0.35;
+    const points = [
+      [-a, -size], [a, -size], [a, -a], [size, -a], [size, a], [a, a],
+      [a, size], [-a, size], [-a, a], [-size, a], [-size, -a], [-a, -a],
+    ];
+    for (const [dx, dy] of points) ctx.lineTo(cx + dx, cy + dy);
+    ctx.closePath();
+  } else {
+    ctx.arc(cx, cy, size, 0, Math.PI * 2);
+  }
+  ctx.fillStyle = kind === 'bomb' ? '#000000' : '#ffffff';
+  ctx.strokeStyle = '#000000';
+  ctx.lineWidth = highContrast ? 2 : 1;
+  ctx.fill();
+  ctx.stroke();
+  if (kind === 'bomb') {
+    ctx.fillStyle = '#ffffff';
+    ctx.font = `bold ${size + 2}px system-ui, sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('!', cx, cy + 1);
+  }
+  ctx.restore();
+}
 
-  renderHud(ctx, state);
+function renderShield(ctx: CanvasRenderingContext2D, player: Rect): void {
+  ctx.save();
+  ctx.beginPath();
+  ctx.ellipse(
+    player.x + player.width / 2,
+    player.y + player.height / 2,
+    player.width * 0.7,
+    player.height * 0.7,
+    0,
+    0,
+    Math.PI * 2,
+  );
+  ctx.strokeStyle = 'rgba(66, 153, 225, 0.8)';
+  ctx.lineWidth = 3;
+  ctx.stroke();
+  ctx.restore();
 }
 
-function renderHud(ctx: CanvasRenderingContext2D, state: GameState): void {
+function renderCountdown(ctx: CanvasRenderingContext2D, remaining: number): void {
+  const { width, height } = GAME_CONFIG;
+  ctx.save();
+  ctx.font = '72px PPMori, system-ui, sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#000000';
+  ctx.fillText(String(Math.ceil(remaining)), width / 2, height / 2);
+  ctx.restore();
+}
+
+function renderHud(ctx: CanvasRenderingContext2D, state: GameState, highContrast: boolean): void {
   const { width } = GAME_CONFIG;
 
-  ctx.font = '18px PPMori, system-ui, sans-serif';
+  ctx.font = `${highContrast ? 'bold ' : ''}18px PPMori, system-ui, sans-serif`;
   ctx.textAlign = 'left';
   ctx.textBaseline = 'top';
   ctx.fillStyle = '#000000';
 
-  const timeSeconds = Math.floor(state.elapsedTime);
-  const level = Math.floor(state.elapsedTime / 30) + 1;
+  const rules = GAME_MODES[state.gameMode];
+  const level = getLevel(state.elapsedTime);
 
-  ctx.fillText(`Score: ${state.score}`, 16, 18);
-  ctx.fillText(`Lives: ${state.lives}`, 16, 44);
+  if (state.players.length > 1) {
+    // Player 1 top-left, player 2 top-right; co-op lives are shared in the middle.
+    for (const player of state.players) {
+      const left = player.index === 0;
+      const x = left ? 16 : width - 16;
+      ctx.textAlign = left ? 'left' : 'right';
+      ctx.fillStyle = PLAYER_TAG_COLORS[player.index];
+      ctx.fillText(t('hud.playerScore', { number: player.index + 1, score: player.score }), x, 18);
+      ctx.fillStyle = '#000000';
+      if (state.mode === 'versus' && rules.lives) ctx.fillText(t('hud.lives', { lives: player.lives }), x, 44);
+      renderCombo(ctx, player, x, left ? 'left' : 'right');
+    }
+  } else {
+    ctx.fillText(t('hud.score', { score: state.score }), 16, 18);
+    if (rules.lives) ctx.fillText(t('hud.lives', { lives: state.lives }), 16, 44);
+    if (state.players[0]) renderCombo(ctx, state.players[0], 16, 'left');
+  }
 
   ctx.textAlign = 'center';
-  ctx.fillText(`Time: ${timeSeconds}s`, width / 2, 18);
-  ctx.fillText(`Level: ${level}`, width / 2, 44);
+  if (rules.timeLimit != null) {
+    // Time attack counts down, in red for the last ten seconds.
+    const left = Math.max(0, Math.ceil(rules.timeLimit - state.elapsedTime));
+    ctx.fillStyle = left <= 10 ? '#FC411D' : '#000000';
+    ctx.fillText(t('hud.timeLeft', { seconds: left }), width / 2, 18);
+    ctx.fillStyle = '#000000';
+  } else {
+    ctx.fillText(t('hud.time', { seconds: Math.floor(state.elapsedTime) }), width / 2, 18);
+  }
+  ctx.fillText(t('hud.level', { level }), width / 2, 44);
+  if (state.mode === 'coop' && rules.lives) ctx.fillText(t('hud.lives', { lives: state.lives }), width / 2, 70);
+  if (rules.daily) ctx.fillText(t('hud.daily'), width / 2, 70);
+
+  // With two players the top-right corner belongs to player 2.
+  renderActiveEffects(ctx, state, state.players.length > 1 ? 124 : 18);
+}
+
+// Streak and multiplier under the lives; the multiplier scales up briefly when it rises.
+function renderCombo(ctx: CanvasRenderingContext2D, player: Player, x: number, align: CanvasTextAlign): void {
+  if (player.streak === 0) return;
+
+  ctx.save();
+  ctx.textAlign = align;
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = '#000000';
+  ctx.font = '16px PPMori, system-ui, sans-serif';
+  ctx.fillText(t('hud.streak', { streak: player.streak }), x, 70);
+
+  if (player.multiplier > 1) {
+    const pop = player.comboPopTimer / COMBO_POP_DURATION; // 1 → 0 over the pop
+    const scale = 1 + 0.6 * Math.sin(pop * Math.PI);
+    ctx.translate(x, 92);
+    ctx.scale(scale, scale);
+    ctx.font = '20px PPMori, system-ui, sans-serif';
+    ctx.fillStyle = pop > 0 ? '#FC411D' : '#000000';
+    ctx.fillText(`x${player.multiplier}`, 0, 0);
+  }
+  ctx.restore();
+}
+
+const EFFECT_LABELS: Record<PowerUpEffect, MessageKey> = {
+  shield: 'effect.shield',
+  magnet: 'effect.magnet',
+  slowMotion: 'effect.slowMotion',
+  extraLife: 'effect.extraLife',
+};
+
+// Running power-ups, top-right: name, seconds left and a shrinking bar.
+function renderActiveEffects(ctx: CanvasRenderingContext2D, state: GameState, top: number): void {
+  const { width } = GAME_CONFIG;
+  const barWidth = 90;
+  let y = top;
+
+  ctx.save();
+  ctx.font = '16px PPMori, system-ui, sans-serif';
+  ctx.textAlign = 'right';
+  ctx.textBaseline = 'top';
+  for (const fx of state.activeEffects) {
+    ctx.fillStyle = '#000000';
+    ctx.fillText(`${t(EFFECT_LABELS[fx.effect])} ${Math.ceil(fx.remaining)}s`, width - 16, y);
+    const fraction = fx.duration > 0 ? fx.remaining / fx.duration : 0;
+    ctx.fillStyle = '#C9E3FF';
+    ctx.fillRect(width - 16 - barWidth, y + 20, barWidth, 4);
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(width - 16 - barWidth, y + 20, barWidth * fraction, 4);
+    y += 32;
+  }
+  ctx.restore();
 }
 
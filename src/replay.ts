@@ -0,0 +1,265 @@
+// Round recording and playback. A replay is the round's starting parameters plus
+// the exact per-frame input and dt, so re-running the simulation reproduces it.
+
+import { CONFIG_VERSION, GAME_MODE_IDS } from './config.ts';
+import type { GameModeId } from './config.ts';
+import { getActiveContent, getContentKey } from './content';
+import type { GameState, PlayMode } from './entities';
+import { PLAY_MODES } from './entities';
+import type { InputState } from './input';
+import { createInputState, INPUT_BUTTONS } from './input';
+import { t } from './i18n';
+import type { SimulationEvent } from './simulation';
+import { createInitialState, beginPlay, stepSimulation } from './simulation';
+
+export const REPLAY_FORMAT = 'tulu-replay';
+export const REPLAY_VERSION = 1;
+
+export const PLAYBACK_SPEEDS = [0.5, 1, 2, 4];
+
+export interface ReplayStart {
+  mode: PlayMode;
+  gameMode: GameModeId;
+  characterIndex: number;
+  // Player 2's character; only used in co-op and versus.
+  player2CharacterIndex: number;
+  seed: number;
+  configVersion: string;
+  // Content pack the round was played with ("id@version").
+  contentPack: string;
+}
+
+export interface ReplayFrame {
+  dt: number;
+  input: InputState;
+}
+
+export interface ReplayFile {
+  format: typeof REPLAY_FORMAT;
+  version: number;
+  recordedAt: string;
+  start: ReplayStart;
+  finalScore: number;
+  frames: ReplayFrame[];
+}
+
+export function createReplay(state: GameState): ReplayFile {
+  return {
+    format: REPLAY_FORMAT,
+    version: REPLAY_VERSION,
+    recordedAt: new Date().toISOString(),
+    start: {
+      mode: state.mode,
+      gameMode: state.gameMode,
+      characterIndex: state.selectedCharacterIndex,
+      player2CharacterIndex: state.player2CharacterIndex,
+      seed: state.rng.seed,
+      configVersion: CONFIG_VERSION,
+      contentPack: getContentKey(),
+    },
+    finalScore: 0,
+    frames: [],
+  };
+}
+
+export function recordFrame(replay: ReplayFile, dt: number, input: Readonly<InputState>): void {
+  replay.frames.push({ dt, input: { ...input } });
+}
+
+export function serializeReplay(replay: ReplayFile): string {
+  return JSON.stringify(replay);
+}
+
+// Parses and validates a replay file. Throws with a translated message on bad input.
+export function parseReplay(text: string): ReplayFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(t('replay.error.json'));
+  }
+
+  if (!isObject(data) || data.format !== REPLAY_FORMAT) {
+    throw new Error(t('replay.error.format'));
+  }
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(t('replay.error.version', { version: String(data.version), expected: REPLAY_VERSION }));
+  }
+
+  const start = data.start;
+  if (!isObject(start)) {
+    throw new Error(t('replay.error.start'));
+  }
+  const { characterIndex, seed, configVersion } = start;
+  // Replays from before content packs existed were all played on the built-in pack.
+  const contentPack = typeof start.contentPack === 'string' ? start.contentPack : `default@${configVersion}`;
+  if (contentPack !== getContentKey()) {
+    throw new Error(t('replay.error.contentPack', { pack: contentPack, active: getContentKey() }));
+  }
+  const characterCount = getActiveContent().characters.length;
+  const isCharacterIndex = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < characterCount;
+  if (!isCharacterIndex(characterIndex)) {
+    throw new Error(t('replay.error.character', { value: String(characterIndex) }));
+  }
+  // Replays from before two-player modes were all single-player rounds.
+  const mode = start.mode ?? 'single';
+  if (!PLAY_MODES.includes(mode as PlayMode)) {
+    throw new Error(t('replay.error.mode', { value: String(mode) }));
+  }
+  // ...and endless rounds, before game modes.
+  const gameMode = start.gameMode ?? 'endless';
+  if (!GAME_MODE_IDS.includes(gameMode as GameModeId)) {
+    throw new Error(t('replay.error.gameMode', { value: String(gameMode) }));
+  }
+  const player2CharacterIndex = start.player2CharacterIndex ?? 0;
+  if (!isCharacterIndex(player2CharacterIndex)) {
+    throw new Error(t('replay.error.player2Character', { value: String(player2CharacterIndex) }));
+  }
+  if (typeof seed !== 'number' || !Number.isInteger(seed) || seed < 0) {
+    throw new Error(t('replay.error.seed', { value: String(seed) }));
+  }
+  if (typeof configVersion !== 'string') {
+    throw new Error(t('replay.error.configVersion'));
+  }
+
+  if (!Array.isArray(data.frames)) {
+    throw new Error(t('replay.error.frames'));
+  }
+  const frames: ReplayFrame[] = data.frames.map((frame: unknown, i: number) => {
+    if (!isObject(frame) || typeof frame.dt !== 'number' || !Number.isFinite(frame.dt) || frame.dt < 0) {
+      throw new Error(t('replay.error.frameDt', { frame: i }));
+    }
+    if (!isObject(frame.input)) {
+      throw new Error(t('replay.error.frameInput', { frame: i }));
+    }
+    return { dt: frame.dt, input: readInput(frame.input, i) };
+  });
+
+  return {
+    format: REPLAY_FORMAT,
+    version: REPLAY_VERSION,
+    recordedAt: typeof data.recordedAt === 'string' ? data.recordedAt : '',
+    start: {
+      mode: mode as PlayMode,
+      gameMode: gameMode as GameModeId,
+      characterIndex,
+      player2CharacterIndex,
+      seed,
+      configVersion,
+      contentPack,
+    },
+    finalScore: typeof data.finalScore === 'number' ? data.finalScore : 0,
+    frames,
+  };
+}
+
+// Inputs missing from older recordings keep their defaults.
+function readInput(raw: Record<string, unknown>, frameIndex: number): InputState {
+  const input = createInputState();
+  for (const key of INPUT_BUTTONS) {
+    const value = raw[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'boolean') {
+      throw new Error(t('replay.error.inputValue', { frame: frameIndex, input: key }));
+    }
+    input[key] = value;
+  }
+  const { targetX } = raw;
+  if (targetX !== undefined && targetX !== null && (typeof targetX !== 'number' || !Number.isFinite(targetX))) {
+    throw new Error(t('replay.error.inputValue', { frame: frameIndex, input: 'targetX' }));
+  }
+  input.targetX = targetX ?? null;
+  for (const key of ['axis', 'axis2'] as const) {
+    const value = raw[key];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value))) {
+      throw new Error(t('replay.error.inputValue', { frame: frameIndex, input: key }));
+    }
+    input[key] = value ?? 0;
+  }
+  return input;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Playback re-runs the simulation on a private state, frame by frame.
+export interface ReplayPlayback {
+  replay: ReplayFile;
+  state: GameState;
+  // Index of the next frame to apply.
+  frameIndex: number;
+  speed: number;
+  paused: boolean;
+  // Real time (scaled by speed) not yet spent on recorded frames.
+  timeBank: number;
+}
+
+export function createPlayback(replay: ReplayFile): ReplayPlayback {
+  const playback: ReplayPlayback = {
+    replay,
+    state: createInitialState(),
+    frameIndex: 0,
+    speed: 1,
+    paused: false,
+    timeBank: 0,
+  };
+  seekPlayback(playback, 0);
+  return playback;
+}
+
+// Advances playback by real elapsed time, applying as many recorded frames as fit.
+// Returns the simulation events of the applied frames, for effects and sound.
+export function advancePlayback(playback: ReplayPlayback, realDt: number): SimulationEvent[] {
+  const events: SimulationEvent[] = [];
+  if (playback.paused || isPlaybackFinished(playback)) return events;
+  playback.timeBank += realDt * playback.speed;
+
+  const { frames } = playback.replay;
+  while (playback.frameIndex < frames.length && playback.timeBank >= frames[playback.frameIndex].dt) {
+    const frame = frames[playback.frameIndex];
+    playback.timeBank -= frame.dt;
+    events.push(...applyFrame(playback, frame));
+  }
+  return events;
+}
+
+// Jumps to a frame by re-simulating the round from its start parameters.
+export function seekPlayback(playback: ReplayPlayback, frameIndex: number): void {
+  const { replay } = playback;
+  const target = Math.max(0, Math.min(replay.frames.length, Math.floor(frameIndex)));
+
+  if (target < playback.frameIndex || playback.frameIndex === 0) {
+    const state = createInitialState();
+    state.mode = replay.start.mode;
+    state.gameMode = replay.start.gameMode;
+    state.selectedCharacterIndex = replay.start.characterIndex;
+    state.player2CharacterIndex = replay.start.player2CharacterIndex;
+    beginPlay(state, replay.start.seed);
+    playback.state = state;
+    playback.frameIndex = 0;
+  }
+
+  while (playback.frameIndex < target) {
+    applyFrame(playback, replay.frames[playback.frameIndex]);
+  }
+  playback.timeBank = 0;
+}
+
+// How far playback is into the next recorded frame (0..1), for render interpolation.
+export function getPlaybackAlpha(playback: ReplayPlayback): number {
+  const next = playback.replay.frames[playback.frameIndex];
+  if (!next || next.dt <= 0) return 1;
+  return Math.min(1, playback.timeBank / next.dt);
+}
+
+export function isPlaybackFinished(playback: ReplayPlayback): boolean {
+  return playback.frameIndex >= playback.replay.frames.length;
+}
+
+function applyFrame(playback: ReplayPlayback, frame: ReplayFrame): SimulationEvent[] {
+  const { events } = stepSimulation(playback.state, frame.input, frame.dt);
+  playback.frameIndex += 1;
+  return events;
+}
@@ -0,0 +1,64 @@
+// Small seedable PRNG (mulberry32) so rounds can be reproduced from a seed.
+// The generator is plain data, so it can live on the game state and be copied.
+
+export interface Rng {
+  seed: number;
+  state: number;
+}
+
+export function createRng(seed: number): Rng {
+  const normalized = seed >>> 0;
+  return { seed: normalized, state: normalized };
+}
+
+// Returns a float in [0, 1) and advances the generator.
+export function nextFloat(rng: Rng): number {
+  rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+// Picks one entry with probability proportional to its weight. A single
+// candidate is returned without a roll, so it doesn't advance the generator.
+export function pickWeighted<T>(rng: Rng, entries: T[], weightOf: (entry: T) => number): T {
+  if (entries.length === 1) return entries[0];
+  const total = entries.reduce((sum, entry) => sum + Math.max(0, weightOf(entry)), 0);
+  let roll = nextFloat(rng) * total;
+  for (const entry of entries) {
+    roll -= Math.max(0, weightOf(entry));
+    if (roll < 0) return entry;
+  }
+  return entries[entries.length - 1];
+}
+
+// Fresh seed for a new round when none was requested.
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+// Parses a seed from user input (e.g. a URL parameter). Returns null if invalid.
+export function parseSeed(value: string | null | undefined): number | null {
+  if (value == null) return null;
+  const trimmed = value.trim();
+  if (!/^\d+$/.test(trimmed)) return null;
+  const n = Number(trimmed);
+  if (!Number.isSafeInteger(n) || n > 0xffffffff) return null;
+  return n >>> 0;
+}
+
+// UTC calendar date ("YYYY-MM-DD"), so the daily challenge is the same worldwide.
+export function getDailyKey(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Seed of the daily challenge for a date key: an FNV-1a hash of the key.
+export function dailySeed(dailyKey: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < dailyKey.length; i++) {
+    hash ^= dailyKey.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,227 @@
+// Settings overlay: rebind keyboard controls and adjust sound. Lives in
+// the same UI layer as the other HTML screens and is opened from the start screen.
+
+import type { AudioSettings, VolumeChannel } from './audio';
+import type { InputButton } from './input';
+import type { KeyBindings } from './bindings';
+import {
+  BINDABLE_ACTIONS,
+  DEFAULT_BINDINGS,
+  actionLabel,
+  cloneBindings,
+  describeKey,
+  findConflict,
+} from './bindings';
+import type { MessageKey } from './i18n';
+import { onLocaleChange, t, translateElement } from './i18n';
+
+export interface SettingsPanelActions {
+  onBindingsChange: (bindings: KeyBindings) => void;
+  onAudioChange: (settings: AudioSettings) => void;
+}
+
+export interface SettingsPanelOptions {
+  bindings: KeyBindings;
+  audio: AudioSettings;
+}
+
+const VOLUME_LABELS: Record<VolumeChannel, MessageKey> = {
+  master: 'volume.master',
+  music: 'volume.music',
+  sfx: 'volume.sfx',
+};
+
+export interface SettingsPanel {
+  open: () => void;
+  close: () => void;
+  isOpen: () => boolean;
+}
+
+export function initSettingsPanel(
+  parent: HTMLElement,
+  initial: SettingsPanelOptions,
+  actions: SettingsPanelActions,
+): SettingsPanel {
+  let bindings = cloneBindings(initial.bindings);
+  const audio = { ...initial.audio };
+  // Action currently waiting for a key press, if any.
+  let capturing: InputButton | null = null;
+  let visible = false;
+
+  const screen = document.createElement('div');
+  screen.className = 'screen settings-screen';
+  screen.innerHTML = `
+    <div class="panel">
+      <div class="panel-content">
+        <h2 class="title" data-i18n="settings.controls"></h2>
+        <div class="bindings-table" role="table" data-i18n-label="settings.bindings"></div>
+        <p class="error-message" data-binding-message aria-live="polite"></p>
+        <div class="settings-actions">
+          <button type="button" class="replay-btn" data-settings="reset" data-i18n="settings.reset"></button>
+        </div>
+        <h2 class="title" data-i18n="settings.sound"></h2>
+        <div class="settings-options">
+          <label class="settings-row">
+            <span data-i18n="settings.mute"></span>
+            <input type="checkbox" data-audio-mute ${audio.muted ? 'checked' : ''} />
+          </label>
+          ${(Object.keys(VOLUME_LABELS) as VolumeChannel[])
+            .map(
+              (channel) => `
+                <label class="settings-row">
+                  <span data-i18n="${VOLUME_LABELS[channel]}"></span>
+                  <input type="range" min="0" max="100" value="${Math.round(audio[channel] * 100)}" data-volume="${channel}" />
+                </label>`,
+            )
+            .join('')}
+        </div>
+        <div class="settings-actions">
+          <button type="button" class="replay-btn" data-settings="close" data-i18n="common.done"></button>
+        </div>
+      </div>
+    </div>
+  `;
+  translateElement(screen);
+  parent.appendChild(screen);
+
+  const table = screen.querySelector<HTMLDivElement>('.bindings-table')!;
+  const message = screen.querySelector<HTMLParagraphElement>('[data-binding-message]')!;
+
+  const commit = (next: KeyBindings) => {
+    bindings = next;
+    actions.onBindingsChange(cloneBindings(bindings));
+    renderTable();
+  };
+
+  const renderTable = () => {
+    table.innerHTML = BINDABLE_ACTIONS.map((action) => {
+      const keys = bindings[action]
+        .map(
+          (code) => `
+            <span class="key-chip">
+              ${describeKey(code)}
+              <button type="button" class="key-remove" data-remove="${action}" data-code="${code}"
+                aria-label="${t('settings.removeKey', { key: describeKey(code), action: actionLabel(action) })}"
+                ${bindings[action].length <= 1 ? 'disabled' : ''}>×</button>
+            </span>`,
+        )
+        .join('');
+      const addLabel = t(capturing === action ? 'settings.pressKey' : 'settings.addKey');
+      return `
+        <div class="binding-row" role="row">
+          <span class="binding-action" role="rowheader">${actionLabel(action)}</span>
+          <span class="binding-keys" role="cell">${keys}</span>
+          <button type="button" class="replay-btn${capturing === action ? ' active' : ''}" data-capture="${action}">${addLabel}</button>
+        </div>`;
+    }).join('');
+  };
+
+  // Runs before the game's own key listener and swallows the key being bound.
+  const captureKey = (e: KeyboardEvent) => {
+    if (!capturing) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    const action = capturing;
+    stopCapture();
+
+    const code = e.code;
+    if (bindings[action].includes(code)) {
+      message.textContent = t('settings.alreadyBound', { key: describeKey(code), action: actionLabel(action) });
+      return;
+    }
+    const conflict = findConflict(bindings, action, code);
+    if (conflict) {
+      message.textContent = t('settings.conflict', { key: describeKey(code), action: actionLabel(conflict) });
+      return;
+    }
+
+    message.textContent = '';
+    const next = cloneBindings(bindings);
+    next[action].push(code);
+    commit(next);
+  };
+
+  const startCapture = (action: InputButton) => {
+    capturing = action;
+    message.textContent = t('settings.pressKeyFor', { action: actionLabel(action) });
+    window.addEventListener('keydown', captureKey, true);
+    renderTable();
+  };
+
+  const stopCapture = () => {
+    capturing = null;
+    window.removeEventListener('keydown', captureKey, true);
+    renderTable();
+  };
+
+  screen.addEventListener('click', (event) => {
+    const target = event.target as HTMLElement | null;
+    if (!target) return;
+
+    if (target.dataset.capture) {
+      const action = target.dataset.capture as InputButton;
+      if (capturing === action) {
+        stopCapture();
+        message.textContent = '';
+      } else {
+        startCapture(action);
+      }
+      return;
+    }
+    if (target.dataset.remove && target.dataset.code) {
+      const action = target.dataset.remove as InputButton;
+      const next = cloneBindings(bindings);
+      next[action] = next[action].filter((code) => code !== target.dataset.code);
+      if (next[action].length > 0) {
+        commit(next);
+      }
+      return;
+    }
+    if (target.dataset.settings === 'reset') {
+      if (capturing) stopCapture();
+      message.textContent = t('settings.resetDone');
+      commit(cloneBindings(DEFAULT_BINDINGS));
+      return;
+    }
+    if (target.dataset.settings === 'close') {
+      panel.close();
+    }
+  });
+
+  screen.addEventListener('input', (event) => {
+    const target = event.target as HTMLInputElement | null;
+    if (!target) return;
+    if (target.dataset.volume) {
+      audio[target.dataset.volume as VolumeChannel] = Number(target.value) / 100;
+    } else if (target.matches('[data-audio-mute]')) {
+      audio.muted = target.checked;
+    } else {
+      return;
+    }
+    actions.onAudioChange({ ...audio });
+  });
+
+  renderTable();
+  onLocaleChange(() => {
+    translateElement(screen);
+    message.textContent = '';
+    renderTable();
+  });
+
+  const panel: SettingsPanel = {
+    open() {
+      visible = true;
+      message.textContent = '';
+      screen.style.display = 'flex';
+    },
+    close() {
+      if (capturing) stopCapture();
+      visible = false;
+      screen.style.display = 'none';
+    },
+    isOpen: () => visible,
+  };
+
+  return panel;
+}
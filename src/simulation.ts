@@ -0,0 +1,707 @@
+// Headless game rules. Nothing in here touches the DOM, the canvas or `window`,
+// so the simulation can be driven from Node just as well as from the browser loop.
+
+import {
+  GAME_CONFIG,
+  MAX_SPAWNS_PER_FRAME,
+  RARE_STREAK_BONUS,
+  COMBO_POP_DURATION,
+  RARE_ITEM_CHANCE,
+  RESUME_COUNTDOWN,
+  POWER_UP_CHANCE,
+  POWER_UP_START_TIME,
+  POWER_UP_MIN_INTERVAL,
+  MAX_LIVES,
+  MAGNET_RANGE,
+  MAGNET_PULL,
+  SLOW_MOTION_FACTOR,
+  GAME_MODES,
+  getComboMultiplier,
+  getLevel,
+  isRareItemFor,
+} from './config.ts';
+import type { CharacterConfig, GameModeId, ItemTypeConfig, PowerUpEffect } from './config.ts';
+import { getActiveContent, getDifficulty, getItemType } from './content';
+import type { GameState, GameScreen, FallingItem, Player, PlayMode } from './entities';
+import { createPlayer, createFallingItem, aabbIntersect, storePreviousPosition } from './entities';
+import type { InputState, InputButton } from './input';
+import { createRng, nextFloat, pickWeighted, randomSeed } from './rng';
+
+// Things that happened during a single step, for renderers, audio, analytics etc.
+// `player` is the index of the player involved; null when it concerns everyone.
+export type SimulationEvent =
+  | { type: 'roundStart'; seed: number }
+  | { type: 'spawn'; item: FallingItem }
+  // `streak`, `playerScore` and `score` as they stood right after this catch.
+  | { type: 'catch'; item: FallingItem; points: number; player: number; streak: number; playerScore: number; score: number }
+  | { type: 'comboUp'; streak: number; multiplier: number; player: number }
+  | { type: 'comboBroken'; streak: number; player: number }
+  | { type: 'miss'; item: FallingItem; player: number | null }
+  | { type: 'bombCaught'; item: FallingItem; player: number }
+  // `lives` is what is left afterwards: the player's own in versus (`player` set),
+  // otherwise the shared pool (`player` null, whoever caused it).
+  | { type: 'lifeLost'; player: number | null; lives: number }
+  | { type: 'hazardDodged'; item: FallingItem }
+  | { type: 'levelUp'; level: number }
+  | { type: 'powerUp'; item: FallingItem; effect: PowerUpEffect; player: number }
+  | { type: 'shieldBlocked'; item: FallingItem; player: number }
+  | { type: 'powerUpExpired'; effect: PowerUpEffect }
+  | { type: 'paused' }
+  | { type: 'resumed' }
+  // `winner` is set in versus rounds.
+  | { type: 'penalty'; item: FallingItem; points: number; player: number | null }
+  | { type: 'gameOver'; score: number; winner: number | null };
+
+export interface StepOptions {
+  // Seed for a round started during this step (confirm/restart); null → fresh seed.
+  roundSeed?: number | null;
+  // Debug only: bombs and missed items are ignored instead of costing lives or points.
+  invincible?: boolean;
+}
+
+export interface StepResult {
+  state: GameState;
+  events: SimulationEvent[];
+  // One-shot inputs the step acted on; the caller should release them.
+  consumed: InputButton[];
+}
+
+export function createInitialState(): GameState {
+  return {
+    screen: 'start',
+    mode: 'single',
+    gameMode: 'endless',
+    players: [],
+    selectedCharacterIndex: 0,
+    // Packs may ship a single character; then both players share it.
+    player2CharacterIndex: Math.min(1, getActiveContent().characters.length - 1),
+    score: 0,
+    lives: GAME_CONFIG.initialLives,
+    winner: null,
+    catches: 0,
+    misses: 0,
+    elapsedTime: 0,
+    spawnAccumulator: 0,
+    nextSpawnPlayer: 0,
+    items: [],
+    lastBombTime: -Infinity,
+    lastSpawnX: GAME_CONFIG.width / 2,
+    rng: createRng(randomSeed()),
+    resumeCountdown: 0,
+    activeEffects: [],
+    lastPowerUpTime: -Infinity,
+    powerUpSpawnTimes: {},
+  };
+}
+
+// Advances the game by `dt` seconds. The state is updated in place and returned;
+// `input` is treated as a read-only snapshot.
+export function stepSimulation(
+  state: GameState,
+  input: Readonly<InputState>,
+  dt: number,
+  options: StepOptions = {},
+): StepResult {
+  const result: StepResult = { state, events: [], consumed: [] };
+
+  switch (state.screen) {
+    case 'loading':
+    case 'start':
+      // Loading and start screens are driven entirely by HTML; nothing to update here yet.
+      break;
+    case 'characterSelect':
+      updateCharacterSelect(state, input, options, result);
+      break;
+    case 'playing':
+      updatePlaying(state, input, dt, options, result);
+      break;
+    case 'paused':
+      updatePaused(state, input, options, result);
+      break;
+    case 'gameOver':
+      updateGameOver(state, input, options, result);
+      break;
+  }
+
+  return result;
+}
+
+// Starts a new round. Passing a seed replays that exact sequence of spawns.
+export function beginPlay(state: GameState, seed: number | null = null): SimulationEvent {
+  const { characters } = getActiveContent();
+  const { width, height } = GAME_CONFIG;
+  if (state.mode === 'single') {
+    state.players = [createPlayer(characters[state.selectedCharacterIndex], width, height)];
+  } else {
+    // Replays and pack changes can carry an index the active pack doesn't have.
+    state.player2CharacterIndex %= characters.length;
+    // Two players start at a third and two thirds of the width.
+    state.players = [
+      createPlayer(characters[state.selectedCharacterIndex], width, height, 0, width / 3),
+      createPlayer(characters[state.player2CharacterIndex], width, height, 1, (width * 2) / 3),
+    ];
+  }
+  state.screen = 'playing';
+  state.score = 0;
+  state.lives = GAME_CONFIG.initialLives;
+  state.winner = null;
+  state.catches = 0;
+  state.misses = 0;
+  state.elapsedTime = 0;
+  state.spawnAccumulator = 0;
+  state.nextSpawnPlayer = 0;
+  state.items = [];
+  state.lastBombTime = -Infinity;
+  state.lastSpawnX = GAME_CONFIG.width / 2;
+  state.rng = createRng(seed ?? randomSeed());
+  state.resumeCountdown = 0;
+  state.activeEffects = [];
+  state.lastPowerUpTime = -Infinity;
+  state.powerUpSpawnTimes = {};
+  return { type: 'roundStart', seed: state.rng.seed };
+}
+
+export function setScreen(state: GameState, screen: GameScreen): void {
+  state.screen = screen;
+}
+
+// The daily challenge is single-player only, so picking one switches off the other.
+export function setPlayMode(state: GameState, mode: PlayMode): void {
+  state.mode = mode;
+  if (mode !== 'single' && GAME_MODES[state.gameMode].daily) {
+    state.gameMode = 'endless';
+  }
+}
+
+export function setGameMode(state: GameState, gameMode: GameModeId): void {
+  state.gameMode = gameMode;
+  if (GAME_MODES[gameMode].daily) {
+    state.mode = 'single';
+  }
+}
+
+// Selects the character for player 1 (index 0) or player 2 (index 1).
+export function selectCharacter(state: GameState, index: number, player = 0): void {
+  if (index >= 0 && index < getActiveContent().characters.length) {
+    if (player === 0) {
+      state.selectedCharacterIndex = index;
+    } else {
+      state.player2CharacterIndex = index;
+    }
+  }
+}
+
+function updateCharacterSelect(
+  state: GameState,
+  input: Readonly<InputState>,
+  options: StepOptions,
+  result: StepResult,
+): void {
+  const count = getActiveContent().characters.length;
+  const cycle = (index: number, step: number) => (index + step + count) % count;
+  // In single-player mode both key sets drive the one selection.
+  const p2Keys: InputButton[] = ['left2', 'right2'];
+  const p1Keys: InputButton[] = state.mode === 'single' ? ['left', 'right', ...p2Keys] : ['left', 'right'];
+
+  for (const key of p1Keys) {
+    if (input[key]) {
+      const step = key === 'left' || key === 'left2' ? -1 : 1;
+      state.selectedCharacterIndex = cycle(state.selectedCharacterIndex, step);
+      result.consumed.push(key); // prevent very fast cycling
+    }
+  }
+  if (state.mode !== 'single') {
+    for (const key of p2Keys) {
+      if (input[key]) {
+        state.player2CharacterIndex = cycle(state.player2CharacterIndex, key === 'left2' ? -1 : 1);
+        result.consumed.push(key);
+      }
+    }
+  }
+
+  if (input.confirm) {
+    result.events.push(beginPlay(state, options.roundSeed));
+    result.consumed.push('confirm');
+    // A gamepad's START presses confirm and pause together; don't let the
+    // leftover pause stop the round it just started.
+    if (input.pause) result.consumed.push('pause');
+  }
+}
+
+interface PlayerControls {
+  left: boolean;
+  right: boolean;
+  axis: number;
+  targetX: number | null;
+}
+
+// Player 1 uses the primary key set, stick and pointer; player 2 the second key
+// set and stick. Alone, player 1 gets both.
+function controlsFor(state: GameState, input: Readonly<InputState>, player: Player): PlayerControls {
+  if (state.mode === 'single') {
+    return {
+      left: input.left || input.left2,
+      right: input.right || input.right2,
+      axis: input.axis !== 0 ? input.axis : input.axis2,
+      targetX: input.targetX,
+    };
+  }
+  if (player.index === 0) {
+    return { left: input.left, right: input.right, axis: input.axis, targetX: input.targetX };
+  }
+  return { left: input.left2, right: input.right2, axis: input.axis2, targetX: null };
+}
+
+function movePlayer(player: Player, controls: PlayerControls, dt: number): void {
+  const startX = player.x;
+  if (controls.targetX != null) {
+    // Drag-to-follow: move towards the pointer, capped at the normal speed.
+    const maxStep = player.speed * dt;
+    const delta = controls.targetX - (player.x + player.width / 2);
+    player.x += Math.max(-maxStep, Math.min(maxStep, delta));
+  } else if (controls.axis !== 0) {
+    // Analog stick: speed proportional to how far it is pushed.
+    player.x += Math.max(-1, Math.min(1, controls.axis)) * player.speed * dt;
+  } else {
+    let dir = 0;
+    if (controls.left) dir -= 1;
+    if (controls.right) dir += 1;
+    player.x += dir * player.speed * dt;
+  }
+  player.x = Math.max(0, Math.min(GAME_CONFIG.width - player.width, player.x));
+  player.moveDir = Math.sign(player.x - startX);
+}
+
+function updatePlaying(
+  state: GameState,
+  input: Readonly<InputState>,
+  dt: number,
+  options: StepOptions,
+  result: StepResult,
+): void {
+  if (state.players.length === 0) return;
+
+  if (input.pause) {
+    state.screen = 'paused';
+    // Gamepad START also presses confirm, which would resume right away.
+    result.consumed.push('pause');
+    if (input.confirm) result.consumed.push('confirm');
+    result.events.push({ type: 'paused' });
+    return;
+  }
+
+  for (const player of state.players) {
+    storePreviousPosition(player);
+    movePlayer(player, controlsFor(state, input, player), dt);
+  }
+  for (const item of state.items) {
+    storePreviousPosition(item);
+  }
+
+  // After a pause the players can reposition, but nothing falls until the countdown ends.
+  if (state.resumeCountdown > 0) {
+    state.resumeCountdown = Math.max(0, state.resumeCountdown - dt);
+    return;
+  }
+
+  const rules = GAME_MODES[state.gameMode];
+  const previousLevel = getLevel(state.elapsedTime);
+  state.elapsedTime += dt;
+  const level = getLevel(state.elapsedTime);
+  if (level > previousLevel) {
+    result.events.push({ type: 'levelUp', level });
+  }
+  if (rules.timeLimit != null && state.elapsedTime >= rules.timeLimit) {
+    state.elapsedTime = rules.timeLimit;
+    endRound(state, result, leaderByScore(state));
+    return;
+  }
+  for (const player of state.players) {
+    player.comboPopTimer = Math.max(0, player.comboPopTimer - dt);
+  }
+  tickEffects(state, dt, result);
+  const diff = getDifficulty(state.elapsedTime);
+
+  // Slow motion stretches the world (spawns and falling) but not the round clock.
+  const worldDt = hasEffect(state, 'slowMotion') ? dt * SLOW_MOTION_FACTOR : dt;
+  const magnet = hasEffect(state, 'magnet');
+
+  const spawnRate = diff.spawnRate;
+  const spawnInterval = spawnRate > 0 ? 1 / spawnRate : Infinity;
+  state.spawnAccumulator += worldDt;
+  let spawnsThisFrame = 0;
+  while (state.spawnAccumulator >= spawnInterval && spawnsThisFrame < MAX_SPAWNS_PER_FRAME) {
+    state.spawnAccumulator -= spawnInterval;
+    // Spawns alternate between the players' item pools; in versus each item belongs to one player.
+    const target = state.players[state.nextSpawnPlayer % state.players.length];
+    state.nextSpawnPlayer = (state.nextSpawnPlayer + 1) % state.players.length;
+    const item = spawnItem(state, pickItemType(state, target), state.mode === 'versus' ? target.index : null);
+    spawnsThisFrame += 1;
+    result.events.push({ type: 'spawn', item });
+  }
+
+  const groundY = GAME_CONFIG.height - 10;
+  const remaining: typeof state.items = [];
+
+  for (const item of state.items) {
+    item.y += item.vy * worldDt;
+    item.age += worldDt;
+
+    const catchers = state.players.filter((player) => item.owner == null || item.owner === player.index);
+
+    if (magnet && !item.type.isHazard) {
+      pullTowardsNearest(item, catchers, worldDt);
+    }
+
+    // Collision with a player; the first one hit catches the item.
+    const catcher = catchers.find((player) => aabbIntersect(player, item));
+    if (catcher) {
+      if (item.type.isHazard && options.invincible) {
+        continue;
+      } else if (item.type.isHazard && removeEffect(state, 'shield')) {
+        // The shield absorbs one bomb and is used up.
+        result.events.push({ type: 'shieldBlocked', item, player: catcher.index });
+        continue;
+      } else if (item.type.isHazard && !rules.lives) {
+        // Without lives a bomb only costs points.
+        result.events.push({ type: 'bombCaught', item, player: catcher.index });
+        applyPenalty(state, catcher, item, rules.bombPenalty, result);
+        breakStreak(catcher, result);
+        continue;
+      } else if (item.type.isHazard) {
+        // Catching a bomb ends the game (versus: for the catcher) immediately.
+        result.events.push({ type: 'bombCaught', item, player: catcher.index });
+        if (state.mode === 'versus') {
+          catcher.lives = 0;
+          result.events.push({ type: 'lifeLost', player: catcher.index, lives: 0 });
+          endRound(state, result, otherPlayer(state, catcher));
+        } else {
+          state.lives = 0;
+          result.events.push({ type: 'lifeLost', player: null, lives: 0 });
+          endRound(state, result, null);
+        }
+        break;
+      } else if (item.type.powerUp) {
+        applyPowerUp(state, catcher, item.type.powerUp.effect, item.type.powerUp.duration);
+        catcher.score += item.type.scoreValue;
+        state.score += item.type.scoreValue;
+        result.events.push({ type: 'powerUp', item, effect: item.type.powerUp.effect, player: catcher.index });
+        continue;
+      } else {
+        state.catches += 1;
+        const points = scoreCatch(state, catcher, item, result);
+        result.events.push({
+          type: 'catch',
+          item,
+          points,
+          player: catcher.index,
+          streak: catcher.streak,
+          playerScore: catcher.score,
+          score: state.score,
+        });
+        continue;
+      }
+    }
+
+    // Item reached the ground.
+    if (item.y + item.height >= groundY) {
+      if (item.type.isHazard) {
+        result.events.push({ type: 'hazardDodged', item });
+      } else if (!item.type.powerUp && !options.invincible) {
+        // Only normal items cost a life when missed.
+        if (missItem(state, item, result)) break;
+      }
+      continue;
+    }
+
+    remaining.push(item);
+  }
+
+  state.items = remaining;
+}
+
+// Pulls a catchable item sideways towards the nearest player in range (magnet power-up).
+function pullTowardsNearest(item: FallingItem, players: Player[], dt: number): void {
+  const itemCenter = item.x + item.width / 2;
+  let delta = Infinity;
+  for (const player of players) {
+    if (item.y + item.height >= player.y) continue;
+    const d = player.x + player.width / 2 - itemCenter;
+    if (Math.abs(d) < Math.abs(delta)) delta = d;
+  }
+  if (Math.abs(delta) <= MAGNET_RANGE) {
+    const maxStep = MAGNET_PULL * dt;
+    item.x += Math.max(-maxStep, Math.min(maxStep, delta));
+  }
+}
+
+// Costs a life (the owner's in versus, the shared pool otherwise), or points in
+// modes without lives. Returns true if the round ended.
+function missItem(state: GameState, item: FallingItem, result: StepResult): boolean {
+  const owner = item.owner == null ? null : state.players[item.owner];
+  state.misses += 1;
+  result.events.push({ type: 'miss', item, player: owner ? owner.index : null });
+
+  const rules = GAME_MODES[state.gameMode];
+  if (!rules.lives) {
+    // Alone, the only player pays; in co-op the penalty comes off the team total.
+    applyPenalty(state, owner ?? (state.mode === 'single' ? state.players[0] : null), item, rules.missPenalty, result);
+    for (const player of owner ? [owner] : state.players) {
+      breakStreak(player, result);
+    }
+    return false;
+  }
+
+  if (owner) {
+    owner.lives -= 1;
+    result.events.push({ type: 'lifeLost', player: owner.index, lives: owner.lives });
+    breakStreak(owner, result);
+    if (owner.lives <= 0) {
+      endRound(state, result, otherPlayer(state, owner));
+      return true;
+    }
+    return false;
+  }
+
+  state.lives -= 1;
+  result.events.push({ type: 'lifeLost', player: null, lives: state.lives });
+  for (const player of state.players) {
+    breakStreak(player, result);
+  }
+  if (state.lives <= 0) {
+    endRound(state, result, null);
+    return true;
+  }
+  return false;
+}
+
+// Takes points off a player (and the total), or only off the total for `null`. Scores never go negative.
+function applyPenalty(
+  state: GameState,
+  player: Player | null,
+  item: FallingItem,
+  points: number,
+  result: StepResult,
+): void {
+  if (points <= 0) return;
+  const lost = Math.min(points, player ? player.score : state.score, state.score);
+  if (player) player.score -= lost;
+  state.score -= lost;
+  if (lost > 0) {
+    result.events.push({ type: 'penalty', item, points: lost, player: player ? player.index : null });
+  }
+}
+
+// Versus winner when the round ends without a knockout: the higher score, or null on a tie.
+function leaderByScore(state: GameState): number | null {
+  if (state.mode !== 'versus') return null;
+  const [a, b] = state.players;
+  if (a.score === b.score) return null;
+  return a.score > b.score ? a.index : b.index;
+}
+
+function otherPlayer(state: GameState, player: Player): number | null {
+  return state.players.find((other) => other !== player)?.index ?? null;
+}
+
+// Versus players each have their own lives; otherwise everyone shares the round's.
+function livesOf(state: GameState, player: Player): number {
+  return state.mode === 'versus' ? player.lives : state.lives;
+}
+
+// Adds the points for a caught item and advances the catcher's streak; returns the points awarded.
+function scoreCatch(state: GameState, player: Player, item: FallingItem, result: StepResult): number {
+  const bonus = player.streak > 0 && isRareItemFor(player.character, item.type.id) ? RARE_STREAK_BONUS : 0;
+  const points = (item.type.scoreValue + bonus) * player.multiplier;
+  player.score += points;
+  state.score += points;
+
+  player.streak += 1;
+  player.bestStreak = Math.max(player.bestStreak, player.streak);
+  const multiplier = getComboMultiplier(player.streak);
+  if (multiplier > player.multiplier) {
+    player.comboPopTimer = COMBO_POP_DURATION;
+    result.events.push({ type: 'comboUp', streak: player.streak, multiplier, player: player.index });
+  }
+  player.multiplier = multiplier;
+  return points;
+}
+
+function breakStreak(player: Player, result: StepResult): void {
+  if (player.streak > 0) {
+    result.events.push({ type: 'comboBroken', streak: player.streak, player: player.index });
+  }
+  player.streak = 0;
+  player.multiplier = 1;
+}
+
+function hasEffect(state: GameState, effect: PowerUpEffect): boolean {
+  return state.activeEffects.some((fx) => fx.effect === effect);
+}
+
+// Removes the effect if active; returns whether it was.
+function removeEffect(state: GameState, effect: PowerUpEffect): boolean {
+  const index = state.activeEffects.findIndex((fx) => fx.effect === effect);
+  if (index === -1) return false;
+  state.activeEffects.splice(index, 1);
+  return true;
+}
+
+// Timed effects are shared by both players; an extra life goes to the catcher in versus.
+function applyPowerUp(state: GameState, catcher: Player, effect: PowerUpEffect, duration: number): void {
+  if (effect === 'extraLife') {
+    if (state.mode === 'versus') {
+      catcher.lives = Math.min(MAX_LIVES, catcher.lives + 1);
+    } else {
+      state.lives = Math.min(MAX_LIVES, state.lives + 1);
+    }
+    return;
+  }
+  // Catching the same power-up again refreshes its timer instead of stacking.
+  const active = state.activeEffects.find((fx) => fx.effect === effect);
+  if (active) {
+    active.remaining = duration;
+    active.duration = duration;
+  } else {
+    state.activeEffects.push({ effect, remaining: duration, duration });
+  }
+}
+
+function tickEffects(state: GameState, dt: number, result: StepResult): void {
+  for (const fx of state.activeEffects) {
+    fx.remaining -= dt;
+    if (fx.remaining <= 0) {
+      result.events.push({ type: 'powerUpExpired', effect: fx.effect });
+    }
+  }
+  state.activeEffects = state.activeEffects.filter((fx) => fx.remaining > 0);
+}
+
+function endRound(state: GameState, result: StepResult, winner: number | null): void {
+  state.screen = 'gameOver';
+  state.winner = winner;
+  result.events.push({ type: 'gameOver', score: state.score, winner });
+}
+
+// Adds an item of `type` at a random position, falling at the current difficulty's speed.
+function spawnItem(state: GameState, type: ItemTypeConfig, owner: number | null): FallingItem {
+  const item = createFallingItem(type, GAME_CONFIG.width, state.rng, state.lastSpawnX);
+  item.vy *= getDifficulty(state.elapsedTime).speedMultiplier;
+  item.owner = owner;
+  state.items.push(item);
+  state.lastSpawnX = item.x;
+  return item;
+}
+
+// Debug/tooling: spawns a specific item type right away, outside the normal schedule.
+export function forceSpawn(state: GameState, type: ItemTypeConfig): SimulationEvent {
+  return { type: 'spawn', item: spawnItem(state, type, null) };
+}
+
+const BOMB_COOLDOWN = 1.2; // seconds
+
+// Chance that the next spawn is a bomb, and how long the bomb cooldown still runs.
+export function getBombOdds(state: GameState): { chance: number; cooldown: number } {
+  const rules = GAME_MODES[state.gameMode];
+  const t = state.elapsedTime;
+  const cooldown = Math.max(0, BOMB_COOLDOWN - (t - state.lastBombTime));
+  const hasHazards = getActiveContent().items.some((item) => item.isHazard);
+  if (!rules.bombs || !hasHazards || t < 5 || cooldown > 0) {
+    return { chance: 0, cooldown };
+  }
+  // Smooth ramp from ~3% at 5s up to 9% over 45 seconds.
+  const ramp = Math.min(1, (t - 5) / 45);
+  const chance = Math.min(0.09, Math.max(0, 0.03 + ramp * (0.09 - 0.03)));
+  return { chance, cooldown };
+}
+
+// Picks the next item type from `player`'s character pools.
+function pickItemType(state: GameState, player: Player): ItemTypeConfig {
+  const content = getActiveContent();
+  const rules = GAME_MODES[state.gameMode];
+  const character: CharacterConfig = player.character;
+  const base = resolveItems(character.baseItemIds);
+  const rare = resolveItems(character.rareItemIds);
+  const hazards = content.items.filter((t) => t.isHazard);
+  const powerUps = content.items.filter((t) => t.powerUp);
+
+  // Decide bomb first, with time-based chance and cooldown.
+  const t = state.elapsedTime;
+  const bombChance = getBombOdds(state).chance;
+  if (bombChance > 0 && nextFloat(state.rng) < bombChance) {
+    state.lastBombTime = t;
+    return pickWeighted(state.rng, hazards, (item) => item.spawnWeight);
+  }
+
+  // Power-ups: rare, never back to back, and each with its own cooldown.
+  // Only rolled when one is eligible, so rounds without power-ups keep their sequence.
+  if (t >= POWER_UP_START_TIME && t - state.lastPowerUpTime >= POWER_UP_MIN_INTERVAL) {
+    const eligible = powerUps.filter(
+      (item) =>
+        t - (state.powerUpSpawnTimes[item.id] ?? -Infinity) >= (item.powerUp!.cooldown ?? 0) &&
+        !(item.powerUp!.effect === 'extraLife' && (!rules.lives || livesOf(state, player) >= MAX_LIVES)) &&
+        !(item.powerUp!.effect === 'shield' && !rules.bombs),
+    );
+    if (eligible.length > 0 && nextFloat(state.rng) < POWER_UP_CHANCE) {
+      const picked = pickWeighted(state.rng, eligible, (item) => item.spawnWeight);
+      state.lastPowerUpTime = t;
+      state.powerUpSpawnTimes[picked.id] = t;
+      return picked;
+    }
+  }
+
+  // Independent rare item roll.
+  if (rare.length > 0 && nextFloat(state.rng) < RARE_ITEM_CHANCE) {
+    return pickWeighted(state.rng, rare, (item) => item.spawnWeight);
+  }
+
+  return pickWeighted(state.rng, base, (item) => item.spawnWeight);
+}
+
+// Packs are validated before they become active, so every lookup succeeds here.
+function resolveItems(ids: string[]): ItemTypeConfig[] {
+  return ids.map((id) => getItemType(id)!);
+}
+
+function updatePaused(
+  state: GameState,
+  input: Readonly<InputState>,
+  options: StepOptions,
+  result: StepResult,
+): void {
+  if (input.pause || input.confirm) {
+    state.screen = 'playing';
+    state.resumeCountdown = RESUME_COUNTDOWN;
+    if (input.pause) result.consumed.push('pause');
+    if (input.confirm) result.consumed.push('confirm');
+    result.events.push({ type: 'resumed' });
+  } else if (input.restart) {
+    result.events.push(beginPlay(state, options.roundSeed));
+    result.consumed.push('restart');
+  } else if (input.back) {
+    // Rounds that can't be lost or run out (zen) are finished from here instead.
+    const rules = GAME_MODES[state.gameMode];
+    if (!rules.lives && rules.timeLimit == null) {
+      endRound(state, result, leaderByScore(state));
+    } else {
+      state.screen = 'characterSelect';
+    }
+    result.consumed.push('back');
+  }
+}
+
+function updateGameOver(
+  state: GameState,
+  input: Readonly<InputState>,
+  options: StepOptions,
+  result: StepResult,
+): void {
+  if (input.restart) {
+    result.events.push(beginPlay(state, options.roundSeed));
+    result.consumed.push('restart');
+  } else if (input.back) {
+    const { mode, gameMode, selectedCharacterIndex, player2CharacterIndex } = state;
+    Object.assign(state, createInitialState(), { mode, gameMode, selectedCharacterIndex, player2CharacterIndex });
+    result.consumed.push('back');
+  }
+}
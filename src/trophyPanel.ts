@@ -0,0 +1,97 @@
+// Trophy overlay opened from the start screen: every achievement, with the unlock
+// date or, while still locked, the best progress towards it.
+
+import type { SavedAchievements } from './achievements';
+import { ACHIEVEMENTS, savedProgress } from './achievements';
+import { getLocale, onLocaleChange, t, translateElement } from './i18n';
+
+export interface TrophyPanel {
+  open: () => void;
+  close: () => void;
+  isOpen: () => boolean;
+}
+
+export function initTrophyPanel(parent: HTMLElement, getSaved: () => SavedAchievements): TrophyPanel {
+  let visible = false;
+
+  const screen = document.createElement('div');
+  screen.className = 'screen trophy-screen';
+  screen.innerHTML = `
+    <div class="panel">
+      <div class="panel-content">
+        <h2 class="title" data-i18n="trophies.title"></h2>
+        <p class="instructions" data-trophy-count></p>
+        <ul class="trophy-list"></ul>
+        <div class="settings-actions">
+          <button type="button" class="replay-btn" data-trophies="close" data-i18n="common.done"></button>
+        </div>
+      </div>
+    </div>
+  `;
+  parent.appendChild(screen);
+
+  const count = screen.querySelector<HTMLParagraphElement>('[data-trophy-count]')!;
+  const list = screen.querySelector<HTMLUListElement>('.trophy-list')!;
+
+  const render = () => {
+    const saved = getSaved();
+    const unlocked = ACHIEVEMENTS.filter((def) => saved.unlocked[def.id]).length;
+    count.textContent = t('trophies.count', { unlocked, total: ACHIEVEMENTS.length });
+
+    list.replaceChildren(
+      ...ACHIEVEMENTS.map((def) => {
+        const item = document.createElement('li');
+        item.className = 'trophy';
+        const date = saved.unlocked[def.id];
+        item.classList.toggle('locked', !date);
+        item.innerHTML = `
+          <span class="trophy-icon" aria-hidden="true">${def.icon}</span>
+          <div class="trophy-text">
+            <strong></strong>
+            <span></span>
+          </div>
+          <span class="trophy-status"></span>
+        `;
+        item.querySelector('strong')!.textContent = t(def.title);
+        item.querySelector('.trophy-text span')!.textContent = t(def.description, def.descriptionParams);
+        const status = item.querySelector<HTMLSpanElement>('.trophy-status')!;
+        if (date) {
+          status.textContent = new Date(date).toLocaleDateString(getLocale());
+        } else {
+          const { current, target } = savedProgress(def, saved);
+          const bar = document.createElement('progress');
+          bar.max = target;
+          bar.value = current;
+          status.append(bar, ` ${current}/${target}`);
+        }
+        return item;
+      }),
+    );
+  };
+
+  translateElement(screen);
+  onLocaleChange(() => {
+    translateElement(screen);
+    if (visible) render();
+  });
+
+  screen.addEventListener('click', (event) => {
+    const target = event.target as HTMLElement | null;
+    if (target?.dataset.trophies === 'close') panel.close();
+  });
+
+  const panel: TrophyPanel = {
+    open() {
+      visible = true;
+      render();
+      screen.style.display = 'flex';
+    },
+    close() {
+      visible = false;
+      screen.style.display = 'none';
+    },
+    isOpen: () => visible,
+  };
+
+  return panel;
+}
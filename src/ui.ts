@@ -0,0 +1,768 @@
+// HTML overlay screens (loading, start, character select, game over) on top of the canvas.
+
+import type { PreloadProgress } from './assets';
+import { LOGO_PATH } from './assets';
+import { getActiveContent, DEFAULT_CONTENT_PACK } from './content';
+import { GAME_MODES, GAME_MODE_IDS } from './config.ts';
+import type { CharacterConfig, GameModeId } from './config.ts';
+import type { GameState, PlayMode } from './entities';
+import { PLAY_MODES } from './entities';
+import type { TouchScheme } from './input';
+import { TOUCH_SCHEMES } from './input';
+import type { AudioSettings } from './audio';
+import type { KeyBindings } from './bindings';
+import { describeControls } from './bindings';
+import { initSettingsPanel } from './settingsPanel';
+import type { AccessibilitySettings } from './accessibility';
+import { attachAnnouncer, focusFirst } from './accessibility';
+import { initAccessibilityPanel } from './accessibilityPanel';
+import type { DailyAttempt, Leaderboard } from './leaderboard';
+import { MAX_NAME_LENGTH } from './leaderboard';
+import { initLeaderboardPanel } from './leaderboardPanel';
+import type { AchievementDef, SavedAchievements } from './achievements';
+import { initTrophyPanel } from './trophyPanel';
+import type { ReplayPlayback } from './replay';
+import { PLAYBACK_SPEEDS } from './replay';
+import { getDailyKey } from './rng';
+import type { Locale, MessageKey } from './i18n';
+import { LOCALES, LOCALE_NAMES, getLocale, onLocaleChange, setLocale, t, translateElement } from './i18n';
+
+export type UiActions = {
+  onStart: () => void;
+  // `player` is 0 for player 1, 1 for player 2.
+  onSelectCharacter: (index: number, player: number) => void;
+  onSelectMode: (mode: PlayMode) => void;
+  onSelectGameMode: (gameMode: GameModeId) => void;
+  onStartGame: () => void;
+  onRestart: () => void;
+  onBackToCharacterSelect: () => void;
+  onResume: () => void;
+  // Returns an error message if the file could not be loaded.
+  onLoadReplay: (text: string) => string | null;
+  onDownloadReplay: () => void;
+  onReplayTogglePause: () => void;
+  onReplaySeek: (frameIndex: number) => void;
+  onReplaySpeed: (speed: number) => void;
+  onExitReplay: () => void;
+  onTouchSchemeChange: (scheme: TouchScheme) => void;
+  // On-screen movement buttons (touch scheme 'buttons').
+  onTouchButton: (key: 'left' | 'right', pressed: boolean) => void;
+  onBindingsChange: (bindings: KeyBindings) => void;
+  onAudioChange: (settings: AudioSettings) => void;
+  onAccessibilityChange: (settings: AccessibilitySettings) => void;
+  onSubmitHighScore: (name: string) => void;
+  // Returns an error message if the pack could not be loaded.
+  onLoadContentPack: (text: string) => string | null;
+  onResetContentPack: () => void;
+};
+
+export interface UiOptions {
+  touchScheme: TouchScheme;
+  bindings: KeyBindings;
+  audio: AudioSettings;
+  accessibility: AccessibilitySettings;
+  getLeaderboard: (gameMode: GameModeId) => Leaderboard;
+  getAchievements: () => SavedAchievements;
+}
+
+// Where the last round's score stands with respect to the leaderboard.
+export type HighScoreStatus =
+  | { kind: 'none' }
+  | { kind: 'pending' }
+  | { kind: 'saved'; rank: number | null };
+
+// Adapter-side state the overlay needs besides the simulation state.
+export interface UiView {
+  playback: ReplayPlayback | null;
+  highScore: HighScoreStatus;
+  assets: PreloadProgress;
+  dailyAttempt: DailyAttempt | null;
+  // Whether the last round counted for the leaderboard / daily attempt.
+  roundScored: boolean;
+}
+
+const TOUCH_SCHEME_LABELS: Record<TouchScheme, MessageKey> = {
+  halves: 'touchScheme.halves',
+  drag: 'touchScheme.drag',
+  buttons: 'touchScheme.buttons',
+};
+
+const PLAY_MODE_LABELS: Record<PlayMode, MessageKey> = {
+  single: 'playMode.single',
+  coop: 'playMode.coop',
+  versus: 'playMode.versus',
+};
+
+export interface UiController {
+  update: (state: GameState, view: UiView) => void;
+  // Rebuilds pack-dependent markup (character cards, pack label) after a content pack change.
+  refreshContent: () => void;
+  showContentError: (message: string) => void;
+  // Shows a short toast over the playfield for a newly unlocked achievement.
+  announceAchievement: (achievement: AchievementDef) => void;
+}
+
+// How long an achievement toast stays up, in milliseconds.
+const TOAST_DURATION = 3500;
+
+const ARROW_ICON = `
+  <svg xmlns="http://www.w3.org/2000/svg" width="14" height="12" viewBox="0 0 14 12" fill="none">
+    <path d="M13.904 6.736L8.912 11.744L7.568 10.624L11.456 6.736H0V4.992H11.472L7.584 1.12L8.912 0L13.904 4.992V6.736Z" fill="white"/>
+  </svg>`;
+
+// Round arrow button plus text label, same look as the main screen buttons.
+// Text and labels are filled in by translateElement.
+function actionButton(action: string, label: MessageKey): string {
+  return `
+    <div class="button-wrapper">
+      <button type="button" class="btn circle" tabindex="-1" aria-hidden="true" data-action="${action}" data-i18n-label="${label}">${ARROW_ICON}</button>
+      <button type="button" class="button-text" data-action="${action}" data-i18n-label="${label}" data-i18n="${label}"></button>
+    </div>`;
+}
+
+// Mode-specific line on the game-over screen.
+function describeRound(state: GameState, view: UiView): string {
+  const rules = GAME_MODES[state.gameMode];
+  if (rules.daily) {
+    const date = view.dailyAttempt?.date ?? getDailyKey();
+    return view.roundScored
+      ? t('round.dailyScored', { date })
+      : t('round.dailyPractice', { score: view.dailyAttempt?.score ?? '-' });
+  }
+  if (rules.timeLimit != null) {
+    return t('round.timeAttack', { catches: state.catches, misses: state.misses });
+  }
+  if (!rules.lives) {
+    return t('round.zen', { catches: state.catches, seconds: Math.floor(state.elapsedTime) });
+  }
+  return '';
+}
+
+export function initUI(root: HTMLElement, actions: UiActions, options: UiOptions): UiController {
+  const container = root.closest('#game-container') ?? root;
+
+  const uiLayer = document.createElement('div');
+  uiLayer.id = 'ui-layer';
+  container.appendChild(uiLayer);
+
+  uiLayer.innerHTML = `
+    <div class="screen loading-screen">
+      <div class="panel">
+      <div class="panel-content">
+        <h2 class="title" data-i18n="loading.title"></h2>
+        <progress class="loading-progress" max="1" value="0"></progress>
+        <p class="instructions" data-loading-count></p>
+      </div>
+      </div>
+    </div>
+    <div class="screen start-screen">
+      <div class="panel">
+      <div class="panel-content">
+        <img src="${LOGO_PATH}" alt="studio tülü logo" class="logo" />
+        <div class="button-wrapper"">
+        <button type="button" class="btn circle" tabindex="-1" aria-hidden="true" data-action="start" data-i18n-label="start.chooseCharacter">
+          <svg xmlns="http://www.w3.org/2000/svg" width="14" height="12" viewBox="0 0 14 12" fill="none">
+            <path d="M13.904 6.736L8.912 11.744L7.568 10.624L11.456 6.736H0V4.992H11.472L7.584 1.12L8.912 0L13.904 4.992V6.736Z" fill="white"/>
+          </svg>
+        </button>
+        <button type="button" class="button-text" data-action="start" data-i18n-label="start.chooseCharacter" data-i18n="start.chooseCharacter"></button>
+        </div>
+        ${actionButton('load-replay', 'start.loadReplay')}
+        ${actionButton('open-leaderboard', 'start.leaderboard')}
+        ${actionButton('open-trophies', 'start.trophies')}
+        ${actionButton('open-settings', 'start.settings')}
+        ${actionButton('open-accessibility', 'start.accessibility')}
+        <input type="file" accept=".json,application/json" class="replay-file" hidden />
+        <p class="error-message" data-replay-error></p>
+        <div class="content-pack">
+          <span><span data-i18n="start.content"></span> <strong data-pack-name></strong></span>
+          <button type="button" class="replay-btn" data-action="load-pack" data-i18n="start.loadPack"></button>
+          <button type="button" class="replay-btn" data-action="reset-pack" data-i18n="start.resetPack"></button>
+          <input type="file" accept=".json,application/json" class="pack-file" hidden />
+        </div>
+        <div class="language-switcher" role="group" data-i18n-label="start.language">
+          ${LOCALES.map((locale) => `<button type="button" class="replay-btn" data-action="set-locale" data-locale="${locale}" lang="${locale}">${LOCALE_NAMES[locale]}</button>`).join('')}
+        </div>
+        <pre class="error-message content-errors" data-pack-error></pre>
+        <details class="asset-errors" data-asset-errors>
+          <summary></summary>
+          <ul></ul>
+        </details>
+        </div>
+        <p class="instructions" data-instructions></p>
+        <a href="https://www.studiotulu.com" target="_blank" class="link">www.studiotulu.com</a>
+      </div>
+    </div>
+    <div class="screen character-select-screen">
+      <div class="panel">
+      <img src="${LOGO_PATH}" alt="studio tülü logo" class="logo" />
+      <div class="panel-content">
+        <h2 class="title" data-i18n="start.chooseCharacter"></h2>
+        <div class="play-modes" role="group" data-i18n-label="select.gameMode">
+          ${GAME_MODE_IDS.map((mode) => `<button type="button" class="replay-btn" data-action="game-mode" data-game-mode="${mode}" data-i18n="gameMode.${mode}.name"></button>`).join('')}
+        </div>
+        <p class="instructions" data-mode-description></p>
+        <div class="play-modes" role="group" data-i18n-label="select.players">
+          ${PLAY_MODES.map((mode) => `<button type="button" class="replay-btn" data-action="play-mode" data-mode="${mode}" data-i18n="${PLAY_MODE_LABELS[mode]}"></button>`).join('')}
+        </div>
+        <div class="player-picker" role="group" data-i18n-label="select.choosingFor">
+          <span data-i18n="select.choosingFor"></span>
+          <button type="button" class="replay-btn" data-action="pick-player" data-player="0" data-player-label></button>
+          <button type="button" class="replay-btn" data-action="pick-player" data-player="1" data-player-label></button>
+        </div>
+        <div class="character-grid"></div>
+        <div class="button-wrapper"">
+        <button type="button" class="btn circle" tabindex="-1" aria-hidden="true" data-action="start-game" data-i18n-label="select.startGame">
+          <svg xmlns="http://www.w3.org/2000/svg" width="14" height="12" viewBox="0 0 14 12" fill="none">
+            <path d="M13.904 6.736L8.912 11.744L7.568 10.624L11.456 6.736H0V4.992H11.472L7.584 1.12L8.912 0L13.904 4.992V6.736Z" fill="white"/>
+          </svg>
+        </button>
+        <button type="button" class="button-text" data-action="start-game" data-i18n-label="select.startGame" data-i18n="select.startGame"></button>
+        </div>
+        </div>
+        <div class="touch-schemes touch-only" role="group" data-i18n-label="select.touchControls">
+          <span data-i18n="select.touchControls"></span>
+          ${TOUCH_SCHEMES.map((scheme) => `<button type="button" class="replay-btn" data-action="touch-scheme" data-scheme="${scheme}" data-i18n="${TOUCH_SCHEME_LABELS[scheme]}"></button>`).join('')}
+        </div>
+        <p class="instructions" data-instructions></p>
+        <a href="https://www.studiotulu.com" target="_blank" class="link">www.studiotulu.com</a>
+      </div>
+    </div>
+    <div class="screen gameover-screen">
+      <div class="panel">
+      <img src="${LOGO_PATH}" alt="studio tülü logo" class="logo" />
+      <div class="panel-content">
+        <h2 class="title red" data-gameover-title></h2>
+        <p class="final-score" data-score></p>
+        <p class="best-streak" data-best-streak></p>
+        <p class="mode-summary" data-mode-summary></p>
+        <p class="winner" data-winner></p>
+        <p class="player-result" data-player-result="0"></p>
+        <p class="player-result" data-player-result="1"></p>
+        <p class="seed" data-seed></p>
+        <form class="highscore-form" autocomplete="off">
+          <label for="highscore-name" data-i18n="gameOver.highScorePrompt"></label>
+          <input id="highscore-name" name="name" type="text" maxlength="${MAX_NAME_LENGTH}" required />
+          <button type="submit" class="replay-btn" data-i18n="gameOver.save"></button>
+        </form>
+        <p class="highscore-saved" data-highscore-saved></p>
+        </div>
+        <div class="button-row">
+            <div class="button-wrapper">
+            <button type="button" class="btn circle" tabindex="-1" aria-hidden="true" data-action="restart" data-i18n-label="gameOver.restart">
+              <svg xmlns="http://www.w3.org/2000/svg" width="14" height="12" viewBox="0 0 14 12" fill="none">
+                <path d="M13.904 6.736L8.912 11.744L7.568 10.624L11.456 6.736H0V4.992H11.472L7.584 1.12L8.912 0L13.904 4.992V6.736Z" fill="white"/>
+              </svg>
+            </button>
+            <button type="button" class="button-text" data-action="restart" data-i18n-label="gameOver.restart" data-i18n="gameOver.restart"></button>
+            </div>
+            <div class="button-wrapper">
+            <button type="button" class="btn circle" tabindex="-1" aria-hidden="true" data-action="back" data-i18n-label="gameOver.characterSelect">
+              <svg xmlns="http://www.w3.org/2000/svg" width="14" height="12" viewBox="0 0 14 12" fill="none">
+                <path d="M13.904 6.736L8.912 11.744L7.568 10.624L11.456 6.736H0V4.992H11.472L7.584 1.12L8.912 0L13.904 4.992V6.736Z" fill="white"/>
+              </svg>
+            </button>
+            <button type="button" class="button-text" data-action="back" data-i18n-label="gameOver.characterSelect" data-i18n="gameOver.characterSelect"></button>
+            </div>
+            ${actionButton('download-replay', 'gameOver.downloadReplay')}
+            <a href="https://www.studiotulu.com" target="_blank" class="link">www.studiotulu.com</a>
+        </div>
+      </div>
+    </div>
+    <div class="screen pause-screen">
+      <div class="panel">
+      <img src="${LOGO_PATH}" alt="studio tülü logo" class="logo" />
+      <div class="panel-content">
+        <h2 class="title" data-i18n="pause.title"></h2>
+        <div class="button-row">
+          ${actionButton('resume', 'pause.resume')}
+          ${actionButton('restart', 'gameOver.restart')}
+          <div data-pause-back>${actionButton('back', 'pause.quit')}</div>
+        </div>
+      </div>
+      </div>
+    </div>
+    <div class="touch-buttons">
+      <button type="button" class="touch-button" data-touch="left" data-i18n-label="touch.left">◀</button>
+      <button type="button" class="touch-button" data-touch="right" data-i18n-label="touch.right">▶</button>
+    </div>
+    <div class="replay-bar">
+      <span class="replay-label" data-i18n="replay.label"></span>
+      <button type="button" class="replay-btn" data-action="replay-toggle"></button>
+      <input type="range" class="replay-scrub" min="0" max="0" step="1" value="0" data-i18n-label="replay.position" />
+      <span class="replay-time" data-replay-time>0.0s</span>
+      ${PLAYBACK_SPEEDS.map((speed) => `<button type="button" class="replay-btn" data-action="replay-speed" data-speed="${speed}">${speed}×</button>`).join('')}
+      <button type="button" class="replay-btn" data-action="replay-exit" data-i18n="replay.exit"></button>
+    </div>
+    <div class="toast-stack"></div>
+  `;
+  translateElement(uiLayer);
+
+  const loadingScreen = uiLayer.querySelector<HTMLDivElement>('.loading-screen')!;
+  const loadingProgress = loadingScreen.querySelector<HTMLProgressElement>('.loading-progress')!;
+  const loadingCount = loadingScreen.querySelector<HTMLParagraphElement>('[data-loading-count]')!;
+  const assetErrors = uiLayer.querySelector<HTMLDetailsElement>('[data-asset-errors]')!;
+  let shownFailures = -1;
+  const startScreen = uiLayer.querySelector<HTMLDivElement>('.start-screen')!;
+  const charScreen = uiLayer.querySelector<HTMLDivElement>('.character-select-screen')!;
+  const gameOverScreen = uiLayer.querySelector<HTMLDivElement>('.gameover-screen')!;
+  const pauseScreen = uiLayer.querySelector<HTMLDivElement>('.pause-screen')!;
+  const scoreLine = uiLayer.querySelector<HTMLParagraphElement>('[data-score]')!;
+  const seedLine = uiLayer.querySelector<HTMLParagraphElement>('[data-seed]')!;
+  const bestStreakLine = uiLayer.querySelector<HTMLParagraphElement>('[data-best-streak]')!;
+  const winnerLine = uiLayer.querySelector<HTMLParagraphElement>('[data-winner]')!;
+  const playerResults = uiLayer.querySelectorAll<HTMLParagraphElement>('[data-player-result]');
+  const highScoreForm = uiLayer.querySelector<HTMLFormElement>('.highscore-form')!;
+  const highScoreInput = highScoreForm.querySelector<HTMLInputElement>('input')!;
+  const highScoreSaved = uiLayer.querySelector<HTMLParagraphElement>('[data-highscore-saved]')!;
+  let lastHighScoreKind: HighScoreStatus['kind'] = 'none';
+  const characterGrid = uiLayer.querySelector<HTMLDivElement>('.character-grid')!;
+  const playModeButtons = uiLayer.querySelectorAll<HTMLButtonElement>('[data-action="play-mode"]');
+  const gameModeButtons = uiLayer.querySelectorAll<HTMLButtonElement>('[data-action="game-mode"]');
+  const modeDescription = uiLayer.querySelector<HTMLParagraphElement>('[data-mode-description]')!;
+  const gameOverTitle = uiLayer.querySelector<HTMLHeadingElement>('[data-gameover-title]')!;
+  const modeSummary = uiLayer.querySelector<HTMLParagraphElement>('[data-mode-summary]')!;
+  const pauseBackButtons = uiLayer.querySelectorAll<HTMLButtonElement>('[data-pause-back] button');
+  const pauseBackText = uiLayer.querySelector<HTMLButtonElement>('[data-pause-back] .button-text')!;
+  const playerPicker = uiLayer.querySelector<HTMLDivElement>('.player-picker')!;
+  const pickPlayerButtons = playerPicker.querySelectorAll<HTMLButtonElement>('[data-action="pick-player"]');
+  const localeButtons = uiLayer.querySelectorAll<HTMLButtonElement>('[data-action="set-locale"]');
+  // Which player a click on a character card chooses for (two-player modes).
+  let pickingPlayer = 0;
+  const packName = uiLayer.querySelector<HTMLElement>('[data-pack-name]')!;
+  const packFileInput = uiLayer.querySelector<HTMLInputElement>('.pack-file')!;
+  const packError = uiLayer.querySelector<HTMLPreElement>('[data-pack-error]')!;
+  const resetPackButton = uiLayer.querySelector<HTMLButtonElement>('[data-action="reset-pack"]')!;
+  const replayFileInput = uiLayer.querySelector<HTMLInputElement>('.replay-file')!;
+  const replayError = uiLayer.querySelector<HTMLParagraphElement>('[data-replay-error]')!;
+  const replayBar = uiLayer.querySelector<HTMLDivElement>('.replay-bar')!;
+  const replayToggle = replayBar.querySelector<HTMLButtonElement>('[data-action="replay-toggle"]')!;
+  const replayScrub = replayBar.querySelector<HTMLInputElement>('.replay-scrub')!;
+  const replayTime = replayBar.querySelector<HTMLSpanElement>('[data-replay-time]')!;
+  const replaySpeedButtons = replayBar.querySelectorAll<HTMLButtonElement>('[data-action="replay-speed"]');
+  const touchSchemeButtons = uiLayer.querySelectorAll<HTMLButtonElement>('[data-action="touch-scheme"]');
+  const touchButtons = uiLayer.querySelector<HTMLDivElement>('.touch-buttons')!;
+  let touchScheme = options.touchScheme;
+
+  const syncTouchSchemeButtons = () => {
+    touchSchemeButtons.forEach((button) => {
+      button.classList.toggle('active', button.dataset.scheme === touchScheme);
+    });
+  };
+  syncTouchSchemeButtons();
+
+  const instructions = uiLayer.querySelectorAll<HTMLParagraphElement>('[data-instructions]');
+  let bindings = options.bindings;
+  const renderInstructions = () => {
+    const text = describeControls(bindings);
+    instructions.forEach((el) => {
+      el.textContent = text;
+    });
+  };
+  renderInstructions();
+
+  // Labels that take parameters, so translateElement can't fill them.
+  const renderLocaleText = () => {
+    pickPlayerButtons.forEach((button) => {
+      button.textContent = t('common.player', { number: Number(button.dataset.player) + 1 });
+    });
+    localeButtons.forEach((button) => {
+      const selected = button.dataset.locale === getLocale();
+      button.classList.toggle('active', selected);
+      button.setAttribute('aria-pressed', String(selected));
+    });
+  };
+  renderLocaleText();
+
+  // Static markup is re-translated here; text set in update() follows on the next frame.
+  onLocaleChange(() => {
+    translateElement(uiLayer);
+    renderLocaleText();
+    renderInstructions();
+    shownFailures = -1;
+  });
+
+  const leaderboardPanel = initLeaderboardPanel(uiLayer, options.getLeaderboard);
+  const trophyPanel = initTrophyPanel(uiLayer, options.getAchievements);
+  const toastStack = uiLayer.querySelector<HTMLDivElement>('.toast-stack')!;
+
+  const settingsPanel = initSettingsPanel(uiLayer, options, {
+    onBindingsChange: (next) => {
+      bindings = next;
+      renderInstructions();
+      actions.onBindingsChange(next);
+    },
+    onAudioChange: actions.onAudioChange,
+  });
+
+  let accessibility = options.accessibility;
+  const accessibilityPanel = initAccessibilityPanel(uiLayer, accessibility, (next) => {
+    accessibility = next;
+    actions.onAccessibilityChange(next);
+  });
+  attachAnnouncer(uiLayer, () => accessibility.announcements);
+
+  // Keyboard focus follows the overlays: the first control of a newly shown screen,
+  // or back to the start-screen button that opened a panel.
+  const screens = [...uiLayer.querySelectorAll<HTMLElement>('.screen')];
+  let focusedScreen: HTMLElement | null = null;
+  let panelOpener: HTMLElement | null = null;
+  const updateFocus = () => {
+    const shown = screens.find((el) => el.style.display === 'flex') ?? null;
+    if (shown === focusedScreen) return;
+    focusedScreen = shown;
+    if (!shown) {
+      // Gameplay: don't leave focus on a hidden button, where Space or Enter would press it.
+      if (document.activeElement instanceof HTMLElement && uiLayer.contains(document.activeElement)) {
+        document.activeElement.blur();
+      }
+    } else if (shown === startScreen && panelOpener?.isConnected) {
+      panelOpener.focus({ preventScroll: true });
+      panelOpener = null;
+    } else {
+      focusFirst(shown);
+    }
+  };
+
+  // Build character cards and the pack label for the active content pack.
+  const renderContent = () => {
+    const pack = getActiveContent();
+    packName.textContent = `${pack.name} (${pack.version})`;
+    resetPackButton.style.display = pack === DEFAULT_CONTENT_PACK ? 'none' : '';
+    characterGrid.replaceChildren();
+    pack.characters.forEach(renderCharacterCard);
+  };
+
+  const renderCharacterCard = (char: CharacterConfig, index: number) => {
+    const card = document.createElement('button');
+    card.type = 'button';
+    card.className = 'character-card';
+    card.dataset.index = String(index);
+    const img = document.createElement('img');
+    img.src = char.spritePath ?? '';
+    img.alt = char.name;
+    img.className = 'character-avatar';
+    const label = document.createElement('span');
+    label.className = 'character-name';
+    label.textContent = char.name;
+    card.appendChild(img);
+    card.appendChild(label);
+    characterGrid.appendChild(card);
+  };
+
+  renderContent();
+
+  // Button actions.
+  uiLayer.addEventListener('click', (event) => {
+    const target = event.target as HTMLElement | null;
+    if (!target) return;
+
+    if (target.matches('[data-action="start"]')) {
+      actions.onStart();
+      return;
+    }
+    if (target.matches('[data-action="start-game"]')) {
+      actions.onStartGame();
+      return;
+    }
+    if (target.matches('[data-action="restart"]')) {
+      actions.onRestart();
+      return;
+    }
+    if (target.matches('[data-action="back"]')) {
+      actions.onBackToCharacterSelect();
+      return;
+    }
+    if (target.matches('[data-action="resume"]')) {
+      actions.onResume();
+      return;
+    }
+    if (target.matches('[data-action="open-leaderboard"]')) {
+      panelOpener = target;
+      leaderboardPanel.open();
+      return;
+    }
+    if (target.matches('[data-action="open-trophies"]')) {
+      panelOpener = target;
+      trophyPanel.open();
+      return;
+    }
+    if (target.matches('[data-action="open-settings"]')) {
+      panelOpener = target;
+      settingsPanel.open();
+      return;
+    }
+    if (target.matches('[data-action="open-accessibility"]')) {
+      panelOpener = target;
+      accessibilityPanel.open();
+      return;
+    }
+    if (target.matches('[data-action="set-locale"]')) {
+      setLocale(target.dataset.locale as Locale);
+      return;
+    }
+    if (target.matches('[data-action="load-pack"]')) {
+      packFileInput.click();
+      return;
+    }
+    if (target.matches('[data-action="reset-pack"]')) {
+      packError.textContent = '';
+      actions.onResetContentPack();
+      return;
+    }
+    if (target.matches('[data-action="load-replay"]')) {
+      replayFileInput.click();
+      return;
+    }
+    if (target.matches('[data-action="download-replay"]')) {
+      actions.onDownloadReplay();
+      return;
+    }
+    if (target.matches('[data-action="replay-toggle"]')) {
+      actions.onReplayTogglePause();
+      return;
+    }
+    if (target.matches('[data-action="replay-speed"]')) {
+      actions.onReplaySpeed(Number(target.dataset.speed));
+      return;
+    }
+    if (target.matches('[data-action="replay-exit"]')) {
+      actions.onExitReplay();
+      return;
+    }
+    if (target.matches('[data-action="play-mode"]')) {
+      actions.onSelectMode(target.dataset.mode as PlayMode);
+      pickingPlayer = 0;
+      return;
+    }
+    if (target.matches('[data-action="game-mode"]')) {
+      actions.onSelectGameMode(target.dataset.gameMode as GameModeId);
+      return;
+    }
+    if (target.matches('[data-action="pick-player"]')) {
+      pickingPlayer = Number(target.dataset.player);
+      return;
+    }
+    if (target.matches('[data-action="touch-scheme"]')) {
+      touchScheme = target.dataset.scheme as TouchScheme;
+      syncTouchSchemeButtons();
+      actions.onTouchSchemeChange(touchScheme);
+      return;
+    }
+    const card = target.closest<HTMLButtonElement>('.character-card');
+    if (card && card.dataset.index) {
+      const index = Number(card.dataset.index);
+      actions.onSelectCharacter(index, pickingPlayer);
+    }
+  });
+
+  replayFileInput.addEventListener('change', async () => {
+    const file = replayFileInput.files?.[0];
+    replayFileInput.value = '';
+    if (!file) return;
+    const error = actions.onLoadReplay(await file.text());
+    replayError.textContent = error ?? '';
+  });
+
+  // Hold-to-move buttons: press on pointerdown, release on up/cancel/leave.
+  touchButtons.querySelectorAll<HTMLButtonElement>('[data-touch]').forEach((button) => {
+    const key = button.dataset.touch as 'left' | 'right';
+    const release = () => actions.onTouchButton(key, false);
+    button.addEventListener('pointerdown', (event) => {
+      event.preventDefault();
+      button.setPointerCapture(event.pointerId);
+      actions.onTouchButton(key, true);
+    });
+    button.addEventListener('pointerup', release);
+    button.addEventListener('pointercancel', release);
+    button.addEventListener('lostpointercapture', release);
+  });
+
+  packFileInput.addEventListener('change', async () => {
+    const file = packFileInput.files?.[0];
+    packFileInput.value = '';
+    if (!file) return;
+    const error = actions.onLoadContentPack(await file.text());
+    packError.textContent = error ?? '';
+  });
+
+  highScoreForm.addEventListener('submit', (event) => {
+    event.preventDefault();
+    actions.onSubmitHighScore(highScoreInput.value);
+    highScoreInput.value = '';
+    highScoreInput.blur();
+  });
+
+  replayScrub.addEventListener('input', () => {
+    actions.onReplaySeek(Number(replayScrub.value));
+  });
+
+  const controller: UiController = {
+    refreshContent: renderContent,
+    showContentError(message: string) {
+      packError.textContent = message;
+    },
+    announceAchievement(achievement: AchievementDef) {
+      const toast = document.createElement('div');
+      toast.className = 'toast';
+      toast.innerHTML = `
+        <span class="trophy-icon" aria-hidden="true">${achievement.icon}</span>
+        <div class="trophy-text">
+          <span></span>
+          <strong></strong>
+        </div>
+      `;
+      toast.querySelector('.trophy-text span')!.textContent = t('trophies.unlocked');
+      toast.querySelector('strong')!.textContent = t(achievement.title);
+      toastStack.appendChild(toast);
+      window.setTimeout(() => toast.remove(), TOAST_DURATION);
+    },
+    update(state: GameState, view: UiView) {
+      const { playback } = view;
+      replayBar.style.display = playback ? 'flex' : 'none';
+      touchButtons.style.display = !playback && state.screen === 'playing' && touchScheme === 'buttons' ? 'flex' : 'none';
+      if (playback) {
+        // Overlay screens stay hidden while a replay is on the canvas.
+        loadingScreen.style.display = 'none';
+        startScreen.style.display = 'none';
+        charScreen.style.display = 'none';
+        gameOverScreen.style.display = 'none';
+        pauseScreen.style.display = 'none';
+        uiLayer.style.pointerEvents = 'none';
+
+        replayToggle.textContent = t(playback.paused ? 'replay.play' : 'replay.pause');
+        replayScrub.max = String(playback.replay.frames.length);
+        if (document.activeElement !== replayScrub) {
+          replayScrub.value = String(playback.frameIndex);
+        }
+        replayTime.textContent = `${state.elapsedTime.toFixed(1)}s`;
+        replaySpeedButtons.forEach((button) => {
+          button.classList.toggle('active', Number(button.dataset.speed) === playback.speed);
+        });
+        return;
+      }
+
+      // Update score on game over.
+      scoreLine.textContent = t('gameOver.score', { score: state.score });
+      seedLine.textContent = t('gameOver.seed', { seed: state.rng.seed });
+      updateResults(state, view);
+      updateCharacterSelect(state, view.dailyAttempt);
+      updateHighScore(view.highScore);
+      updateAssets(view.assets);
+
+      const screen = state.screen;
+      if (screen !== 'start') {
+        settingsPanel.close();
+        leaderboardPanel.close();
+        trophyPanel.close();
+        accessibilityPanel.close();
+      }
+      const panelOpen =
+        settingsPanel.isOpen() || leaderboardPanel.isOpen() || trophyPanel.isOpen() || accessibilityPanel.isOpen();
+      loadingScreen.style.display = screen === 'loading' ? 'flex' : 'none';
+      startScreen.style.display = screen === 'start' && !panelOpen ? 'flex' : 'none';
+      charScreen.style.display = screen === 'characterSelect' ? 'flex' : 'none';
+      gameOverScreen.style.display = screen === 'gameOver' ? 'flex' : 'none';
+      pauseScreen.style.display = screen === 'paused' ? 'flex' : 'none';
+
+      // Pointer events: enabled when UI is visible, disabled during gameplay.
+      const anyUiVisible = screen !== 'playing';
+      uiLayer.style.pointerEvents = anyUiVisible ? 'auto' : 'none';
+      updateFocus();
+    },
+  };
+
+  function updateAssets(progress: PreloadProgress): void {
+    loadingProgress.value = progress.total > 0 ? progress.done / progress.total : 1;
+    loadingCount.textContent = t('loading.count', { done: progress.done, total: progress.total });
+
+    // Debug list of failed assets; only rebuilt when it changes.
+    if (progress.failed.length === shownFailures) return;
+    shownFailures = progress.failed.length;
+    assetErrors.style.display = shownFailures > 0 ? '' : 'none';
+    assetErrors.querySelector('summary')!.textContent = t('loading.failed', { count: shownFailures });
+    // textContent: paths can come from third-party content packs.
+    assetErrors.querySelector('ul')!.replaceChildren(
+      ...progress.failed.map((path) => {
+        const item = document.createElement('li');
+        item.textContent = path;
+        return item;
+      }),
+    );
+  }
+
+  // Single player: best streak. Two players: a line per player, plus the versus winner.
+  function updateResults(state: GameState, view: UiView): void {
+    const rules = GAME_MODES[state.gameMode];
+    gameOverTitle.textContent = t(
+      rules.timeLimit != null ? 'gameOver.timeUp' : rules.lives ? 'gameOver.title' : 'gameOver.finished',
+    );
+    modeSummary.textContent = describeRound(state, view);
+    modeSummary.style.display = modeSummary.textContent ? '' : 'none';
+
+    const twoPlayers = state.players.length > 1;
+    bestStreakLine.style.display = twoPlayers ? 'none' : '';
+    bestStreakLine.textContent = t('gameOver.bestStreak', { streak: state.players[0]?.bestStreak ?? 0 });
+    playerResults.forEach((line, index) => {
+      const player = state.players[index];
+      line.style.display = twoPlayers && player ? '' : 'none';
+      if (player) {
+        line.textContent = t('gameOver.playerResult', {
+          number: index + 1,
+          count: player.score,
+          streak: player.bestStreak,
+        });
+      }
+    });
+    winnerLine.style.display = state.winner != null ? '' : 'none';
+    winnerLine.textContent = state.winner != null ? t('gameOver.winner', { number: state.winner + 1 }) : '';
+  }
+
+  function updateCharacterSelect(state: GameState, dailyAttempt: DailyAttempt | null): void {
+    const rules = GAME_MODES[state.gameMode];
+    gameModeButtons.forEach((button) => {
+      button.classList.toggle('active', button.dataset.gameMode === state.gameMode);
+    });
+    const practiceOnly = rules.daily && dailyAttempt?.date === getDailyKey();
+    const description = t(`gameMode.${state.gameMode}.description`);
+    modeDescription.textContent = practiceOnly
+      ? t('select.dailyUsed', { description, score: dailyAttempt.score ?? '-' })
+      : description;
+    // Zen rounds are finished from the pause menu.
+    const pauseBackLabel = t(!rules.lives && rules.timeLimit == null ? 'pause.finish' : 'pause.quit');
+    pauseBackText.textContent = pauseBackLabel;
+    pauseBackButtons.forEach((button) => button.setAttribute('aria-label', pauseBackLabel));
+
+    const twoPlayers = state.mode !== 'single';
+    if (!twoPlayers) pickingPlayer = 0;
+    playModeButtons.forEach((button) => {
+      button.classList.toggle('active', button.dataset.mode === state.mode);
+    });
+    playerPicker.style.display = twoPlayers ? '' : 'none';
+    pickPlayerButtons.forEach((button) => {
+      button.classList.toggle('active', Number(button.dataset.player) === pickingPlayer);
+    });
+    characterGrid.querySelectorAll<HTMLButtonElement>('.character-card').forEach((card) => {
+      const index = Number(card.dataset.index);
+      card.classList.toggle('selected', index === state.selectedCharacterIndex);
+      card.classList.toggle('selected-p2', twoPlayers && index === state.player2CharacterIndex);
+    });
+  }
+
+  function updateHighScore(status: HighScoreStatus): void {
+    highScoreForm.style.display = status.kind === 'pending' ? 'flex' : 'none';
+    highScoreSaved.style.display = status.kind === 'saved' ? 'block' : 'none';
+    if (status.kind === 'saved') {
+      highScoreSaved.textContent = status.rank
+        ? t('gameOver.savedRank', { rank: status.rank })
+        : t('gameOver.savedCharacter');
+    }
+    // Focus the name field once when the prompt appears.
+    if (status.kind === 'pending' && lastHighScoreKind !== 'pending') {
+      highScoreInput.focus();
+    }
+    lastHighScoreKind = status.kind;
+  }
+
+  return controller;
+}
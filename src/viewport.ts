@@ -0,0 +1,87 @@
+// Canvas sizing: fits the game into the window at its fixed aspect ratio
+// (letterboxed), sizes the backing store by devicePixelRatio so it stays sharp on
+// HiDPI screens, and maps pointer coordinates back into game space.
+
+import { GAME_CONFIG } from './config.ts';
+
+// Space kept free around the game inside the window, in CSS pixels.
+const VIEWPORT_MARGIN = 16;
+
+export interface ViewportMetrics {
+  // On-screen size of the game in CSS pixels.
+  cssWidth: number;
+  cssHeight: number;
+  // CSS pixels per game unit.
+  scale: number;
+  devicePixelRatio: number;
+}
+
+export interface Viewport {
+  // Resets the context transform so drawing uses game units; call before each render.
+  applyTransform: (ctx: CanvasRenderingContext2D) => void;
+  // Converts client (event) coordinates into game space.
+  toGame: (clientX: number, clientY: number) => { x: number; y: number };
+  getMetrics: () => ViewportMetrics;
+  detach: () => void;
+}
+
+// `container` wraps the canvas and the HTML overlay; it is sized to match the
+// canvas so the overlay screens line up with the playfield.
+export function createViewport(canvas: HTMLCanvasElement, container: HTMLElement): Viewport {
+  const { width, height } = GAME_CONFIG;
+  let metrics: ViewportMetrics = { cssWidth: width, cssHeight: height, scale: 1, devicePixelRatio: 1 };
+
+  const resize = () => {
+    const availableWidth = Math.max(1, window.innerWidth - VIEWPORT_MARGIN * 2);
+    const availableHeight = Math.max(1, window.innerHeight - VIEWPORT_MARGIN * 2);
+    const scale = Math.min(availableWidth / width, availableHeight / height);
+    const cssWidth = Math.floor(width * scale);
+    const cssHeight = Math.floor(height * scale);
+    const dpr = window.devicePixelRatio || 1;
+
+    canvas.style.width = `${cssWidth}px`;
+    canvas.style.height = `${cssHeight}px`;
+    container.style.width = `${cssWidth}px`;
+    container.style.height = `${cssHeight}px`;
+    canvas.width = Math.round(cssWidth * dpr);
+    canvas.height = Math.round(cssHeight * dpr);
+    metrics = { cssWidth, cssHeight, scale, devicePixelRatio: dpr };
+  };
+
+  // Zooming or moving the window to another monitor changes the pixel ratio
+  // without always firing a resize; the query is re-created for each new ratio.
+  let dprQuery: MediaQueryList | null = null;
+  const watchPixelRatio = () => {
+    dprQuery?.removeEventListener('change', onPixelRatioChange);
+    dprQuery = window.matchMedia?.(`(resolution: ${window.devicePixelRatio || 1}dppx)`) ?? null;
+    dprQuery?.addEventListener('change', onPixelRatioChange);
+  };
+  const onPixelRatioChange = () => {
+    resize();
+    watchPixelRatio();
+  };
+
+  resize();
+  watchPixelRatio();
+  window.addEventListener('resize', resize);
+  window.addEventListener('orientationchange', resize);
+
+  return {
+    applyTransform(ctx) {
+      ctx.setTransform(canvas.width / width, 0, 0, canvas.height / height, 0, 0);
+    },
+    toGame(clientX, clientY) {
+      const rect = canvas.getBoundingClientRect();
+      return {
+        x: ((clientX - rect.left) / rect.width) * width,
+        y: ((clientY - rect.top) / rect.height) * height,
+      };
+    },
+    getMetrics: () => metrics,
+    detach() {
+      window.removeEventListener('resize', resize);
+      window.removeEventListener('orientationchange', resize);
+      dprQuery?.removeEventListener('change', onPixelRatioChange);
+    },
+  };
+}